@@ -0,0 +1,202 @@
+package expo.modules.mediacontrol
+
+import android.content.Context
+import android.graphics.Bitmap
+import android.graphics.BitmapFactory
+import android.os.SystemClock
+import kotlinx.coroutines.CoroutineScope
+import kotlinx.coroutines.Deferred
+import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.SupervisorJob
+import kotlinx.coroutines.async
+
+/**
+ * Process-wide cache of decoded artwork
+ *
+ * Shared by the module (prefetchArtwork) and MediaPlaybackService (metadata artwork),
+ * so a prefetched image is ready when the track changes. Entries are evicted least
+ * recently used first once maxEntries or maxBytes is exceeded, and expire ttl seconds
+ * after loading. Concurrent requests for the same URI share a single load.
+ */
+internal object ArtworkCache {
+  private const val DEFAULT_MAX_BYTES = 32L * 1024 * 1024
+  private const val DEFAULT_MAX_ENTRIES = 20
+  private const val DEFAULT_TTL_MS = 60L * 60 * 1000
+
+  private class Entry(val bitmap: Bitmap, val bytes: Long, val loadedAt: Long)
+
+  /// Entries in access order, least recently used first
+  private val entries = LinkedHashMap<String, Entry>(16, 0.75f, true)
+
+  /// Loads in flight, joined by later requests for the same URI
+  private val pendingLoads = HashMap<String, Deferred<Bitmap?>>()
+
+  private val lock = Any()
+
+  /// Bumped by clear(), so loads started before it do not refill the cache
+  private var generation = 0
+
+  /// Loads outlive the callers awaiting them, so a superseded metadata update still fills the cache
+  private val loadScope = CoroutineScope(SupervisorJob() + Dispatchers.IO)
+
+  private var maxBytes = DEFAULT_MAX_BYTES
+  private var maxEntries = DEFAULT_MAX_ENTRIES
+  private var ttlMs = DEFAULT_TTL_MS
+  private var totalBytes = 0L
+  private var hits = 0L
+  private var misses = 0L
+
+  /**
+   * Apply the artworkCache options ({ maxBytes, maxEntries, ttl }), using defaults for missing fields
+   */
+  fun configure(options: Map<String, Any>?) {
+    synchronized(lock) {
+      maxBytes = (options?.get("maxBytes") as? Number)?.toLong() ?: DEFAULT_MAX_BYTES
+      maxEntries = (options?.get("maxEntries") as? Number)?.toInt() ?: DEFAULT_MAX_ENTRIES
+      ttlMs = (options?.get("ttl") as? Number)?.let { (it.toDouble() * 1000).toLong() } ?: DEFAULT_TTL_MS
+      trim()
+    }
+  }
+
+  /**
+   * Get the artwork for a URI, from the cache when possible
+   * @return The bitmap, or null when it cannot be loaded
+   */
+  suspend fun load(context: Context, uri: String): Bitmap? {
+    val load = synchronized(lock) {
+      val cached = getEntry(uri)
+      if (cached != null) {
+        hits++
+        return cached.bitmap
+      }
+      pendingLoads[uri]?.let {
+        hits++
+        return@synchronized it
+      }
+      misses++
+      val appContext = context.applicationContext
+      val loadGeneration = generation
+      loadScope.async {
+        val bitmap = decode(appContext, uri)
+        synchronized(lock) {
+          if (loadGeneration == generation) {
+            pendingLoads.remove(uri)
+            if (bitmap != null) {
+              put(uri, bitmap)
+            }
+          }
+        }
+        bitmap
+      }.also { pendingLoads[uri] = it }
+    }
+    return load.await()
+  }
+
+  /**
+   * Remove all entries and reset the hit and miss counts
+   * Loads in flight still finish for their callers, but are not cached
+   */
+  fun clear() {
+    synchronized(lock) {
+      generation++
+      pendingLoads.clear()
+      entries.clear()
+      totalBytes = 0L
+      hits = 0L
+      misses = 0L
+    }
+  }
+
+  /**
+   * Current contents and counters ({ entries, bytes, hits, misses })
+   */
+  fun getStats(): Map<String, Any> {
+    synchronized(lock) {
+      removeExpired()
+      return mapOf(
+        "entries" to entries.size,
+        "bytes" to totalBytes,
+        "hits" to hits,
+        "misses" to misses
+      )
+    }
+  }
+
+  private fun isExpired(entry: Entry): Boolean {
+    return ttlMs > 0 && SystemClock.elapsedRealtime() - entry.loadedAt > ttlMs
+  }
+
+  private fun getEntry(uri: String): Entry? {
+    val entry = entries[uri] ?: return null
+    if (isExpired(entry)) {
+      remove(uri)
+      return null
+    }
+    return entry
+  }
+
+  private fun put(uri: String, bitmap: Bitmap) {
+    val bytes = bitmap.allocationByteCount.toLong()
+    remove(uri)
+    // A cache limit of 0 turns caching off; oversized images are not worth evicting everything for
+    if (maxEntries <= 0 || bytes > maxBytes) {
+      return
+    }
+    entries[uri] = Entry(bitmap, bytes, SystemClock.elapsedRealtime())
+    totalBytes += bytes
+    trim()
+  }
+
+  private fun remove(uri: String) {
+    entries.remove(uri)?.let { totalBytes -= it.bytes }
+  }
+
+  private fun removeExpired() {
+    entries.filterValues { isExpired(it) }.keys.forEach { remove(it) }
+  }
+
+  /// Evict least recently used entries until both limits are met
+  private fun trim() {
+    removeExpired()
+    while (entries.isNotEmpty() && (entries.size > maxEntries || totalBytes > maxBytes)) {
+      remove(entries.keys.first())
+    }
+  }
+
+  private fun decode(context: Context, uri: String): Bitmap? {
+    return try {
+      when {
+        uri.startsWith("http") -> {
+          val connection = java.net.URL(uri).openConnection()
+          connection.connectTimeout = 5000 // 5 second timeout
+          connection.readTimeout = 5000    // 5 second read timeout
+          connection.getInputStream().use { BitmapFactory.decodeStream(it) }
+        }
+        uri.startsWith("data:") -> {
+          // Base64 image data URI (checked in JS)
+          val bytes = android.util.Base64.decode(uri.substringAfter(","), android.util.Base64.DEFAULT)
+          BitmapFactory.decodeByteArray(bytes, 0, bytes.size)
+        }
+        !uri.contains(":") -> {
+          // Bare names are drawables, which is how release builds bundle require() images
+          val resourceId = context.resources.getIdentifier(uri, "drawable", context.packageName)
+          if (resourceId != 0) {
+            BitmapFactory.decodeResource(context.resources, resourceId)
+          } else {
+            println("⚠️ Artwork resource '$uri' not found in drawable resources")
+            null
+          }
+        }
+        else -> {
+          // Load local artwork (file:, content:)
+          context.contentResolver.openInputStream(android.net.Uri.parse(uri))?.use { inputStream ->
+            BitmapFactory.decodeStream(inputStream)
+          }
+        }
+      }
+    } catch (e: Exception) {
+      println("❌ Failed to load artwork: ${e.message}")
+      null
+    }
+  }
+}
@@ -5,8 +5,13 @@ import android.content.ComponentName
 import android.content.Context
 import android.content.Intent
 import android.content.ServiceConnection
+import android.database.ContentObserver
+import android.media.AudioManager
 import android.os.Build
+import android.os.Handler
 import android.os.IBinder
+import android.os.Looper
+import android.provider.Settings
 import android.support.v4.media.session.MediaSessionCompat
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
@@ -66,11 +71,22 @@ class ExpoMediaControlModule : Module() {
             @Suppress("UNCHECKED_CAST")
             val compactCaps = controlOptions["compactCapabilities"] as? List<String>
             mediaService?.updateCapabilities(caps, compactCaps)
+            @Suppress("UNCHECKED_CAST")
+            val customActions = controlOptions["customActions"] as? List<Map<String, Any>>
+            if (customActions != null) {
+              mediaService?.updateCustomActions(customActions)
+            }
 
             if (currentMetadata.isNotEmpty()) {
               mediaService?.updateMetadata(currentMetadata.toMap())
             }
             mediaService?.updatePlaybackState(currentPlaybackState, currentPosition.toDouble(), currentPlaybackRate.toDouble())
+            if (currentQueue.isNotEmpty()) {
+              mediaService?.updateQueue(currentQueue, currentQueueIndex)
+            }
+            mediaService?.updateShuffleMode(currentShuffleMode)
+            mediaService?.updateRepeatMode(currentRepeatMode)
+            mediaService?.updateFeedbackState(currentFeedbackState)
           } catch (e: Exception) {
             println("⚠️ Error applying pending updates after service connection: ${e.message}")
           }
@@ -124,15 +140,59 @@ class ExpoMediaControlModule : Module() {
   @Volatile
   private var currentPlaybackRate: Float = 1.0f
 
+  /// Current playback queue as sent from JavaScript
+  @Volatile
+  private var currentQueue: List<Map<String, Any>> = emptyList()
+
+  /// Index of the active queue item (-1 = none)
+  @Volatile
+  private var currentQueueIndex: Int = -1
+
+  /// Current shuffle mode ("off", "all" or "group")
+  @Volatile
+  private var currentShuffleMode: String = "off"
+
+  /// Current repeat mode ("off", "one" or "all")
+  @Volatile
+  private var currentRepeatMode: String = "off"
+
+  /// Current feedback state (liked, disliked, bookmarked)
+  @Volatile
+  private var currentFeedbackState: Map<String, Boolean> = emptyMap()
+
   /// Whether media controls are currently enabled
   private var isControlsEnabled: Boolean = false
   
   /// Configuration options for the media controls
   private var controlOptions: MutableMap<String, Any> = ConcurrentHashMap()
   
+  /// Observer notified of system settings changes, used to detect volume changes
+  private var volumeObserver: ContentObserver? = null
+
+  /// Last volume reported to JavaScript, to ignore unrelated settings changes
+  private var lastVolumeState: Map<String, Any>? = null
+
+  /// Step requested via setVolume, so the resulting change is not reported as user-initiated
+  @Volatile
+  private var pendingVolumeStep: Int? = null
+
+  /// Whether JavaScript listens for media control events; Expo drops events sent before it does
+  private var isObservingMediaControlEvents = false
+
+  /// Media control events received while JavaScript was not listening, oldest first
+  private val pendingMediaControlEvents = ArrayDeque<Map<String, Any?>>()
+
+  /// Limits for pendingMediaControlEvents, set from the JS event buffer options (guarded by pendingMediaControlEvents)
+  private var pendingEventsEnabled = true
+  private var maxPendingEvents = DEFAULT_MAX_PENDING_EVENTS
+  private var pendingEventTtlMs = DEFAULT_PENDING_EVENT_TTL_MS
+
   /// Coroutine scope for managing async operations with proper lifecycle
   private var moduleScope = CoroutineScope(SupervisorJob() + Dispatchers.Main)
 
+  /// Scope for artwork prefetches, which also run while controls are disabled
+  private val artworkScope = CoroutineScope(SupervisorJob() + Dispatchers.Main)
+
   // =============================================
   // COMPANION OBJECT FOR STATIC ACCESS
   // =============================================
@@ -149,6 +209,10 @@ class ExpoMediaControlModule : Module() {
     private const val PLAYBACK_STATE_PAUSED = 3
     private const val PLAYBACK_STATE_BUFFERING = 4
     private const val PLAYBACK_STATE_ERROR = 5
+
+    // Default limits for media control events kept until JavaScript listens (matching the JS event buffer)
+    private const val DEFAULT_MAX_PENDING_EVENTS = 10
+    private const val DEFAULT_PENDING_EVENT_TTL_MS = 5000L
     
     // Static reference for service communication
     private var moduleInstance: ExpoMediaControlModule? = null
@@ -238,6 +302,19 @@ class ExpoMediaControlModule : Module() {
       }
     }
 
+    /**
+     * Merge changed metadata fields into the current metadata
+     * Fields set to null are removed; unchanged artwork is not reloaded
+     */
+    AsyncFunction("patchMetadata") { changes: Map<String, Any?>, promise: Promise ->
+      try {
+        patchMetadata(changes)
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("UPDATE_METADATA_FAILED", "Failed to patch metadata: ${e.message}", e)
+      }
+    }
+
     /**
      * Update the current playback state and position
      * Updates MediaSession playback state and refreshes notification accordingly
@@ -267,6 +344,73 @@ class ExpoMediaControlModule : Module() {
       }
     }
 
+    /**
+     * Publish the playback queue to the media session
+     * Exposes the queue to Android Auto and other MediaController clients
+     * @param items - Queue entries ({ id, title, artist, album, artworkUri })
+     * @param activeIndex - Index of the active item, or -1 when none is active
+     */
+    AsyncFunction("updateQueue") { items: List<Map<String, Any>>, activeIndex: Int, promise: Promise ->
+      try {
+        updateQueue(items, activeIndex)
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("UPDATE_QUEUE_FAILED", "Failed to update queue: ${e.message}", e)
+      }
+    }
+
+    /**
+     * Replace the custom actions shown in the notification and on the media session
+     * @param actions - Custom actions ({ id, title, icon, showInCompact })
+     */
+    AsyncFunction("updateCustomActions") { actions: List<Map<String, Any>>, promise: Promise ->
+      try {
+        updateCustomActions(actions)
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("UPDATE_CUSTOM_ACTIONS_FAILED", "Failed to update custom actions: ${e.message}", e)
+      }
+    }
+
+    /**
+     * Publish the current shuffle mode to the media session
+     * @param mode - "off", "all" or "group"
+     */
+    AsyncFunction("setShuffleMode") { mode: String, promise: Promise ->
+      try {
+        setShuffleMode(mode)
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("SET_SHUFFLE_MODE_FAILED", "Failed to set shuffle mode: ${e.message}", e)
+      }
+    }
+
+    /**
+     * Publish the current repeat mode to the media session
+     * @param mode - "off", "one" or "all"
+     */
+    AsyncFunction("setRepeatMode") { mode: String, promise: Promise ->
+      try {
+        setRepeatMode(mode)
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("SET_REPEAT_MODE_FAILED", "Failed to set repeat mode: ${e.message}", e)
+      }
+    }
+
+    /**
+     * Publish the like, dislike and bookmark state to the media session
+     * @param state - { liked, disliked, bookmarked }
+     */
+    AsyncFunction("setFeedbackState") { state: Map<String, Any>, promise: Promise ->
+      try {
+        setFeedbackState(state)
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("SET_FEEDBACK_STATE_FAILED", "Failed to set feedback state: ${e.message}", e)
+      }
+    }
+
     // =============================================
     // STATE QUERY METHODS
     // Methods for retrieving current state information
@@ -296,6 +440,86 @@ class ExpoMediaControlModule : Module() {
       currentPlaybackState
     }
 
+    // =============================================
+    // VOLUME METHODS
+    // Methods for reading and setting the media stream volume
+    // =============================================
+
+    /**
+     * Get the current media stream volume
+     * Returns volume (0.0 - 1.0), muted, streamType and maxSteps
+     */
+    AsyncFunction("getVolume") { promise: Promise ->
+      try {
+        promise.resolve(getVolumeState())
+      } catch (e: Exception) {
+        promise.reject("GET_VOLUME_FAILED", "Failed to get volume: ${e.message}", e)
+      }
+    }
+
+    /**
+     * Set the media stream volume
+     * @param level - Volume from 0.0 to 1.0, rounded to the nearest step
+     */
+    AsyncFunction("setVolume") { level: Double, promise: Promise ->
+      try {
+        setVolume(level)
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("SET_VOLUME_FAILED", "Failed to set volume: ${e.message}", e)
+      }
+    }
+
+    // =============================================
+    // ARTWORK CACHE METHODS
+    // Methods for preloading and managing cached artwork
+    // =============================================
+
+    /**
+     * Load artwork into the cache so a later metadata update shows it immediately
+     * @param uri - Artwork URI (checked in JS)
+     */
+    AsyncFunction("prefetchArtwork") { uri: String, promise: Promise ->
+      val context = appContext.reactContext
+      if (context == null) {
+        promise.reject("PREFETCH_ARTWORK_FAILED", "Failed to prefetch artwork: React context is null", null)
+        return@AsyncFunction
+      }
+      artworkScope.launch {
+        if (ArtworkCache.load(context, uri) != null) {
+          promise.resolve(null)
+        } else {
+          promise.reject("PREFETCH_ARTWORK_FAILED", "Failed to prefetch artwork: could not load $uri", null)
+        }
+      }
+    }
+
+    /**
+     * Remove all cached artwork and reset the cache counters
+     */
+    AsyncFunction("clearArtworkCache") { ->
+      ArtworkCache.clear()
+    }
+
+    /**
+     * Get the number and size of cached images with hit and miss counts
+     */
+    AsyncFunction("getArtworkCacheStats") { ->
+      ArtworkCache.getStats()
+    }
+
+    /**
+     * Apply the JS event buffer options ({ enabled, maxSize, ttl }) to events kept until JavaScript listens
+     */
+    AsyncFunction("configureEventBuffer") { options: Map<String, Any?> ->
+      synchronized(pendingMediaControlEvents) {
+        pendingEventsEnabled = options["enabled"] as? Boolean ?: true
+        maxPendingEvents = (options["maxSize"] as? Number)?.toInt() ?: DEFAULT_MAX_PENDING_EVENTS
+        pendingEventTtlMs = (options["ttl"] as? Number)?.toLong() ?: DEFAULT_PENDING_EVENT_TTL_MS
+        trimPendingMediaControlEvents()
+      }
+    }
+
     // =============================================
     // EVENT DEFINITIONS
     // Define events that can be sent to JavaScript
@@ -303,6 +527,26 @@ class ExpoMediaControlModule : Module() {
     
     /// Events that can be sent to JavaScript
     Events("mediaControlEvent", "volumeChange")
+
+    /// Only observe volume while JavaScript listens for it
+    OnStartObserving("volumeChange") {
+      startVolumeObserver()
+    }
+
+    OnStopObserving("volumeChange") {
+      stopVolumeObserver()
+    }
+
+    /// Replay commands that arrived before JavaScript listened, e.g. the one that cold-started the app
+    OnStartObserving("mediaControlEvent") {
+      flushPendingMediaControlEvents()
+    }
+
+    OnStopObserving("mediaControlEvent") {
+      synchronized(pendingMediaControlEvents) {
+        isObservingMediaControlEvents = false
+      }
+    }
     
     // =============================================
     // LIFECYCLE MANAGEMENT
@@ -314,6 +558,8 @@ class ExpoMediaControlModule : Module() {
         if (isControlsEnabled) {
           disableMediaControls()
         }
+        stopVolumeObserver()
+        artworkScope.cancel()
         println("🤖 ExpoMediaControl module destroyed and cleaned up")
       } catch (e: Exception) {
         println("⚠️ Error during module cleanup: ${e.message}")
@@ -343,6 +589,8 @@ class ExpoMediaControlModule : Module() {
       // Store configuration options
       controlOptions.clear()
       controlOptions.putAll(options)
+      @Suppress("UNCHECKED_CAST")
+      ArtworkCache.configure(options["artworkCache"] as? Map<String, Any>)
       
       val context = appContext.reactContext
       if (context == null) {
@@ -497,7 +745,16 @@ class ExpoMediaControlModule : Module() {
           currentMetadata.clear()
           currentPlaybackState = PLAYBACK_STATE_NONE
           currentPosition = 0L
+          currentQueue = emptyList()
+          currentQueueIndex = -1
+          currentShuffleMode = "off"
+          currentRepeatMode = "off"
+          currentFeedbackState = emptyMap()
           controlOptions.clear()
+          ArtworkCache.clear()
+          synchronized(pendingMediaControlEvents) {
+            pendingMediaControlEvents.clear()
+          }
           
           println("🤖 Media controls disabled successfully")
         } catch (e: Exception) {
@@ -531,36 +788,9 @@ class ExpoMediaControlModule : Module() {
         currentMetadata.clear()
         
         // Clean and validate metadata before storing
-        val cleanMetadata = mutableMapOf<String, Any>()
         metadata.forEach { (key, value) ->
-          when {
-            value is String -> cleanMetadata[key] = value
-            value is Number -> cleanMetadata[key] = value
-            value is Boolean -> cleanMetadata[key] = value
-            value is Map<*, *> -> {
-              // Handle nested maps (like artwork)
-              val nestedMap = mutableMapOf<String, Any>()
-              value.forEach { (nestedKey, nestedValue) ->
-                if (nestedKey is String && nestedValue != null) {
-                  when (nestedValue) {
-                    is String -> nestedMap[nestedKey] = nestedValue
-                    is Number -> nestedMap[nestedKey] = nestedValue
-                    is Boolean -> nestedMap[nestedKey] = nestedValue
-                  }
-                }
-              }
-              if (nestedMap.isNotEmpty()) {
-                cleanMetadata[key] = nestedMap
-              }
-            }
-            else -> {
-              // Skip invalid types but log them
-              println("⚠️ Skipping metadata field '$key' with unsupported type: ${value?.javaClass?.simpleName}")
-            }
-          }
+          cleanMetadataValue(key, value)?.let { currentMetadata[key] = it }
         }
-        
-        currentMetadata.putAll(cleanMetadata)
       }
       
       // Only update if service is bound
@@ -577,6 +807,72 @@ class ExpoMediaControlModule : Module() {
     }
   }
 
+  /**
+   * Patch metadata implementation
+   * Merges changed fields into the stored metadata and delegates to MediaPlaybackService
+   */
+  private fun patchMetadata(changes: Map<String, Any?>) {
+    try {
+      synchronized(currentMetadata) {
+        changes.forEach { (key, value) ->
+          if (value == null) {
+            currentMetadata.remove(key)
+          } else {
+            cleanMetadataValue(key, value)?.let { currentMetadata[key] = it }
+          }
+        }
+      }
+
+      // Only update if service is bound
+      if (isServiceBound && mediaService != null) {
+        mediaService?.updateMetadata(currentMetadata.toMap())
+        println("🤖 Metadata patched via service: ${changes.keys}")
+      } else {
+        println("⚠️ Service not bound, metadata patch skipped")
+      }
+    } catch (e: Exception) {
+      println("❌ Failed to patch metadata: ${e.message}")
+      e.printStackTrace()
+      throw e
+    }
+  }
+
+  /**
+   * Convert a metadata value from JavaScript into a storable value
+   * Returns null (and logs) for unsupported types
+   */
+  private fun cleanMetadataValue(key: String, value: Any?): Any? {
+    return when (value) {
+      is String -> value
+      is Number -> value
+      is Boolean -> value
+      is Map<*, *> -> {
+        // Handle nested maps (like artwork)
+        val nestedMap = mutableMapOf<String, Any>()
+        value.forEach { (nestedKey, nestedValue) ->
+          if (nestedKey is String && nestedValue != null) {
+            when (nestedValue) {
+              is String -> nestedMap[nestedKey] = nestedValue
+              is Number -> nestedMap[nestedKey] = nestedValue
+              is Boolean -> nestedMap[nestedKey] = nestedValue
+            }
+          }
+        }
+        if (nestedMap.isNotEmpty()) nestedMap else null
+      }
+      is List<*> -> {
+        // String lists (like artists)
+        val strings = value.filterIsInstance<String>()
+        if (strings.isNotEmpty()) strings else null
+      }
+      else -> {
+        // Skip invalid types but log them
+        println("⚠️ Skipping metadata field '$key' with unsupported type: ${value?.javaClass?.simpleName}")
+        null
+      }
+    }
+  }
+
   /**
    * Update playback state implementation
    * Delegates to MediaPlaybackService for proper state management
@@ -619,6 +915,123 @@ class ExpoMediaControlModule : Module() {
     }
   }
 
+  /**
+   * Update queue implementation
+   * Stores the queue and delegates to MediaPlaybackService for MediaSession queue management
+   * @param items - Queue entries in display order
+   * @param activeIndex - Index of the active item, or -1 when none is active
+   */
+  private fun updateQueue(items: List<Map<String, Any>>, activeIndex: Int) {
+    try {
+      currentQueue = items.map { it.toMap() }
+      currentQueueIndex = if (activeIndex in items.indices) activeIndex else -1
+
+      // Only update if service is bound
+      if (isServiceBound && mediaService != null) {
+        mediaService?.updateQueue(currentQueue, currentQueueIndex)
+        println("🤖 Queue updated via service: ${items.size} items, active: $currentQueueIndex")
+      } else {
+        println("⚠️ Service not bound, queue update skipped")
+      }
+    } catch (e: Exception) {
+      println("❌ Failed to update queue: ${e.message}")
+      e.printStackTrace()
+      throw e
+    }
+  }
+
+  /**
+   * Update custom actions implementation
+   * Stores the actions with the control options so they survive a service reconnect
+   * @param actions - Custom actions ({ id, title, icon, showInCompact })
+   */
+  private fun updateCustomActions(actions: List<Map<String, Any>>) {
+    try {
+      controlOptions["customActions"] = actions
+
+      // Only update if service is bound
+      if (isServiceBound && mediaService != null) {
+        mediaService?.updateCustomActions(actions)
+        println("🤖 Custom actions updated via service: ${actions.size} actions")
+      } else {
+        println("⚠️ Service not bound, custom actions will be applied when service connects")
+      }
+    } catch (e: Exception) {
+      println("❌ Failed to update custom actions: ${e.message}")
+      e.printStackTrace()
+      throw e
+    }
+  }
+
+  /**
+   * Set shuffle mode implementation
+   * Stores the mode so it is applied again when the service reconnects
+   * @param mode - "off", "all" or "group"
+   */
+  private fun setShuffleMode(mode: String) {
+    try {
+      currentShuffleMode = mode
+
+      // Only update if service is bound
+      if (isServiceBound && mediaService != null) {
+        mediaService?.updateShuffleMode(mode)
+        println("🤖 Shuffle mode updated via service: $mode")
+      } else {
+        println("⚠️ Service not bound, shuffle mode will be applied when service connects")
+      }
+    } catch (e: Exception) {
+      println("❌ Failed to set shuffle mode: ${e.message}")
+      e.printStackTrace()
+      throw e
+    }
+  }
+
+  /**
+   * Set repeat mode implementation
+   * Stores the mode so it is applied again when the service reconnects
+   * @param mode - "off", "one" or "all"
+   */
+  private fun setRepeatMode(mode: String) {
+    try {
+      currentRepeatMode = mode
+
+      // Only update if service is bound
+      if (isServiceBound && mediaService != null) {
+        mediaService?.updateRepeatMode(mode)
+        println("🤖 Repeat mode updated via service: $mode")
+      } else {
+        println("⚠️ Service not bound, repeat mode will be applied when service connects")
+      }
+    } catch (e: Exception) {
+      println("❌ Failed to set repeat mode: ${e.message}")
+      e.printStackTrace()
+      throw e
+    }
+  }
+
+  /**
+   * Set feedback state implementation
+   * Stores the state so it is applied again when the service reconnects
+   * @param state - { liked, disliked, bookmarked }
+   */
+  private fun setFeedbackState(state: Map<String, Any>) {
+    try {
+      currentFeedbackState = state.mapValues { it.value == true }
+
+      // Only update if service is bound
+      if (isServiceBound && mediaService != null) {
+        mediaService?.updateFeedbackState(currentFeedbackState)
+        println("🤖 Feedback state updated via service: $currentFeedbackState")
+      } else {
+        println("⚠️ Service not bound, feedback state will be applied when service connects")
+      }
+    } catch (e: Exception) {
+      println("❌ Failed to set feedback state: ${e.message}")
+      e.printStackTrace()
+      throw e
+    }
+  }
+
   /**
    * Reset controls implementation
    * Clears all information and returns to initial state
@@ -629,10 +1042,19 @@ class ExpoMediaControlModule : Module() {
       currentPlaybackState = PLAYBACK_STATE_NONE
       currentPosition = 0L
       currentPlaybackRate = 1.0f
+      currentQueue = emptyList()
+      currentQueueIndex = -1
+      currentShuffleMode = "off"
+      currentRepeatMode = "off"
+      currentFeedbackState = emptyMap()
 
       // Only reset if service is bound
       if (isServiceBound && mediaService != null) {
         mediaService?.updateMetadata(emptyMap())
+        mediaService?.updateQueue(emptyList(), -1)
+        mediaService?.updateShuffleMode("off")
+        mediaService?.updateRepeatMode("off")
+        mediaService?.updateFeedbackState(emptyMap())
         mediaService?.updatePlaybackState(PLAYBACK_STATE_NONE, 0.0, 1.0)
         println("🤖 Controls reset via service to initial state")
       } else {
@@ -645,6 +1067,127 @@ class ExpoMediaControlModule : Module() {
     }
   }
 
+  // =============================================
+  // VOLUME MANAGEMENT
+  // Methods for reading, setting and observing the media stream volume
+  // =============================================
+
+  /**
+   * Get the system AudioManager
+   */
+  private fun getAudioManager(): AudioManager {
+    val context = appContext.reactContext ?: throw Exception("React context is null")
+    return context.getSystemService(Context.AUDIO_SERVICE) as AudioManager
+  }
+
+  /**
+   * Read the media stream volume as sent to JavaScript
+   */
+  private fun getVolumeState(): Map<String, Any> {
+    val audioManager = getAudioManager()
+    val maxSteps = audioManager.getStreamMaxVolume(AudioManager.STREAM_MUSIC)
+    val step = audioManager.getStreamVolume(AudioManager.STREAM_MUSIC)
+    val muted = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.M) {
+      audioManager.isStreamMute(AudioManager.STREAM_MUSIC)
+    } else {
+      step == 0
+    }
+
+    return mapOf(
+      "volume" to if (maxSteps > 0) step.toDouble() / maxSteps else 0.0,
+      "muted" to muted,
+      "streamType" to "music",
+      "maxSteps" to maxSteps
+    )
+  }
+
+  /**
+   * Set volume implementation
+   * Changes the media stream without showing the system volume UI
+   */
+  private fun setVolume(level: Double) {
+    try {
+      val audioManager = getAudioManager()
+      val maxSteps = audioManager.getStreamMaxVolume(AudioManager.STREAM_MUSIC)
+      val step = Math.round(level.coerceIn(0.0, 1.0) * maxSteps).toInt()
+
+      pendingVolumeStep = step
+      audioManager.setStreamVolume(AudioManager.STREAM_MUSIC, step, 0)
+      println("🤖 Volume set to step $step of $maxSteps")
+    } catch (e: Exception) {
+      // Do Not Disturb can reject volume changes with a SecurityException
+      pendingVolumeStep = null
+      println("❌ Failed to set volume: ${e.message}")
+      throw e
+    }
+  }
+
+  /**
+   * Start reporting volume changes to JavaScript
+   * Volume levels are stored in system settings, so a settings observer sees every change
+   */
+  private fun startVolumeObserver() {
+    if (volumeObserver != null) {
+      return
+    }
+
+    try {
+      val context = appContext.reactContext ?: return
+      lastVolumeState = getVolumeState()
+
+      val observer = object : ContentObserver(Handler(Looper.getMainLooper())) {
+        override fun onChange(selfChange: Boolean) {
+          handleVolumeChange()
+        }
+      }
+      context.contentResolver.registerContentObserver(Settings.System.CONTENT_URI, true, observer)
+      volumeObserver = observer
+      println("🤖 Volume observer started")
+    } catch (e: Exception) {
+      println("❌ Failed to start volume observer: ${e.message}")
+    }
+  }
+
+  /**
+   * Stop reporting volume changes to JavaScript
+   */
+  private fun stopVolumeObserver() {
+    val observer = volumeObserver ?: return
+
+    try {
+      appContext.reactContext?.contentResolver?.unregisterContentObserver(observer)
+      println("🤖 Volume observer stopped")
+    } catch (e: Exception) {
+      println("⚠️ Error stopping volume observer: ${e.message}")
+    } finally {
+      volumeObserver = null
+      lastVolumeState = null
+      pendingVolumeStep = null
+    }
+  }
+
+  /**
+   * Send a volumeChange event when the media stream volume or mute state changed
+   */
+  private fun handleVolumeChange() {
+    try {
+      val state = getVolumeState()
+      if (state == lastVolumeState) {
+        return
+      }
+      lastVolumeState = state
+
+      val maxSteps = state["maxSteps"] as Int
+      val step = Math.round((state["volume"] as Double) * maxSteps).toInt()
+      val userInitiated = pendingVolumeStep != step
+      pendingVolumeStep = null
+
+      sendEvent("volumeChange", state + ("userInitiated" to userInitiated))
+    } catch (e: Exception) {
+      println("❌ Error handling volume change: ${e.message}")
+    }
+  }
+
   // =============================================
   // MEDIA SESSION MANAGEMENT
   // Methods for creating and managing MediaSession
@@ -709,8 +1252,45 @@ class ExpoMediaControlModule : Module() {
       "data" to data,
       "timestamp" to System.currentTimeMillis()
     )
-    
+
+    synchronized(pendingMediaControlEvents) {
+      if (!isObservingMediaControlEvents) {
+        pendingMediaControlEvents.addLast(event)
+        trimPendingMediaControlEvents()
+        println("🤖 Media command kept until JavaScript listens: $command")
+        return
+      }
+    }
+
     sendEvent("mediaControlEvent", event)
     println("🤖 Media command handled: $command")
   }
+
+  /**
+   * Drop the oldest kept events beyond maxPendingEvents, or all of them when buffering is off
+   * Callers hold the pendingMediaControlEvents lock.
+   */
+  private fun trimPendingMediaControlEvents() {
+    if (!pendingEventsEnabled) {
+      pendingMediaControlEvents.clear()
+    }
+    while (pendingMediaControlEvents.size > maxPendingEvents) {
+      pendingMediaControlEvents.removeFirst()
+    }
+  }
+
+  /**
+   * Send the media control events kept while JavaScript was not listening
+   * Events older than pendingEventTtlMs are dropped.
+   */
+  private fun flushPendingMediaControlEvents() {
+    val events = synchronized(pendingMediaControlEvents) {
+      isObservingMediaControlEvents = true
+      val cutoff = System.currentTimeMillis() - pendingEventTtlMs
+      val fresh = pendingMediaControlEvents.filter { (it["timestamp"] as Long) >= cutoff }
+      pendingMediaControlEvents.clear()
+      fresh
+    }
+    events.forEach { sendEvent("mediaControlEvent", it) }
+  }
 }
@@ -13,6 +13,7 @@ import android.os.Binder
 import android.os.Build
 import android.os.Bundle
 import android.os.IBinder
+import android.view.KeyEvent
 import android.support.v4.media.MediaBrowserCompat
 import android.support.v4.media.MediaDescriptionCompat
 import android.support.v4.media.MediaMetadataCompat
@@ -23,6 +24,7 @@ import androidx.core.app.NotificationCompat
 import androidx.media.MediaBrowserServiceCompat
 import androidx.media.app.NotificationCompat as MediaNotificationCompat
 import androidx.media.session.MediaButtonReceiver
+import androidx.media.utils.MediaConstants
 import kotlinx.coroutines.*
 import java.util.concurrent.ConcurrentHashMap
 
@@ -46,6 +48,7 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
     // Request codes for PendingIntents (distinct codes prevent potential conflicts)
     private const val REQUEST_CODE_CONTENT_INTENT = 1  // For activity launch from notification tap
     private const val REQUEST_CODE_MEDIA_ACTION = 2    // For media action broadcasts
+    private const val REQUEST_CODE_CUSTOM_ACTION = 100 // Base for custom action broadcasts, one per action
     
     // Action constants for media buttons
     const val ACTION_PLAY = "expo.modules.mediacontrol.PLAY"
@@ -55,6 +58,24 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
     const val ACTION_PREVIOUS = "expo.modules.mediacontrol.PREVIOUS"
     const val ACTION_SKIP_FORWARD = "expo.modules.mediacontrol.SKIP_FORWARD"
     const val ACTION_SKIP_BACKWARD = "expo.modules.mediacontrol.SKIP_BACKWARD"
+    const val ACTION_CUSTOM = "expo.modules.mediacontrol.CUSTOM"
+    const val EXTRA_CUSTOM_ACTION_ID = "expo.modules.mediacontrol.CUSTOM_ACTION_ID"
+    const val ACTION_LIKE = "expo.modules.mediacontrol.LIKE"
+    const val ACTION_DISLIKE = "expo.modules.mediacontrol.DISLIKE"
+    const val ACTION_BOOKMARK = "expo.modules.mediacontrol.BOOKMARK"
+
+    // Prefix marking custom actions among the notification commands
+    private const val CUSTOM_ACTION_PREFIX = "custom:"
+
+    // Prefix of the session custom actions backing the feedback commands
+    private const val FEEDBACK_ACTION_PREFIX = "expo.modules.mediacontrol.feedback:"
+
+    // Feedback commands and the feedback state field each one shows
+    private val FEEDBACK_FIELDS = linkedMapOf(
+      "like" to "liked",
+      "dislike" to "disliked",
+      "bookmark" to "bookmarked"
+    )
   }
 
   // Service binder for local binding
@@ -75,8 +96,16 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
   // Configuration options
   private var skipInterval = 15.0 // Default 15 seconds
   private var artworkLoadJob: Job? = null // Cancel stale artwork loads on track change
+  private var currentArtworkUri: String? = null // Last loaded artwork, reused while the URI is unchanged
+  private var currentArtwork: Bitmap? = null
   private var capabilities: List<String>? = null // null = all enabled (backward compat)
   private var compactCapabilities: List<String>? = null
+  private var customActions: List<Map<String, Any>> = emptyList() // { id, title, icon, showInCompact }
+  private var feedbackState: Map<String, Boolean> = emptyMap() // { liked, disliked, bookmarked }
+
+  // Queue state - media ids in queue order resolve onSkipToQueueItem, -1 = no active item
+  private var queueIds: List<String> = emptyList()
+  private var activeQueueIndex = -1
   
   // Notification management
   private val notificationManager: NotificationManager by lazy {
@@ -97,6 +126,12 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
         ACTION_PREVIOUS -> mediaSessionCallback.onSkipToPrevious()
         ACTION_SKIP_FORWARD -> mediaSessionCallback.onFastForward()
         ACTION_SKIP_BACKWARD -> mediaSessionCallback.onRewind()
+        ACTION_CUSTOM -> intent.getStringExtra(EXTRA_CUSTOM_ACTION_ID)?.let {
+          mediaSessionCallback.onCustomAction(it, null)
+        }
+        ACTION_LIKE -> mediaSessionCallback.onCustomAction(FEEDBACK_ACTION_PREFIX + "like", null)
+        ACTION_DISLIKE -> mediaSessionCallback.onCustomAction(FEEDBACK_ACTION_PREFIX + "dislike", null)
+        ACTION_BOOKMARK -> mediaSessionCallback.onCustomAction(FEEDBACK_ACTION_PREFIX + "bookmark", null)
       }
     }
   }
@@ -267,6 +302,34 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
       }
     }
 
+    override fun onMediaButtonEvent(mediaButtonEvent: Intent): Boolean {
+      // Report the headset play/pause button as a toggle when requested, so JS can
+      // tell it from explicit play/pause and recognize multi-press gestures.
+      // The default handling would turn a double press into onSkipToNext.
+      if (capabilities?.contains("togglePlayPause") != true) {
+        return super.onMediaButtonEvent(mediaButtonEvent)
+      }
+
+      @Suppress("DEPRECATION")
+      val keyEvent = mediaButtonEvent.getParcelableExtra<KeyEvent>(Intent.EXTRA_KEY_EVENT)
+        ?: return super.onMediaButtonEvent(mediaButtonEvent)
+
+      if (keyEvent.keyCode != KeyEvent.KEYCODE_HEADSETHOOK &&
+        keyEvent.keyCode != KeyEvent.KEYCODE_MEDIA_PLAY_PAUSE
+      ) {
+        return super.onMediaButtonEvent(mediaButtonEvent)
+      }
+
+      try {
+        if (keyEvent.action == KeyEvent.ACTION_DOWN && keyEvent.repeatCount == 0) {
+          sendEventToModule("togglePlayPause", null)
+        }
+      } catch (e: Exception) {
+        println("❌ Error in onMediaButtonEvent: ${e.message}")
+      }
+      return true
+    }
+
     override fun onStop() {
       try {
         currentPlaybackState = PlaybackStateCompat.STATE_STOPPED
@@ -301,6 +364,20 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
       }
     }
 
+    override fun onSkipToQueueItem(id: Long) {
+      try {
+        // Queue item ids are queue indices, map back to the JS item id
+        val mediaId = queueIds.getOrNull(id.toInt())
+        if (mediaId != null) {
+          sendEventToModule("skipToQueueItem", mapOf("id" to mediaId))
+        } else {
+          println("⚠️ Ignoring skip to unknown queue item: $id")
+        }
+      } catch (e: Exception) {
+        println("❌ Error in onSkipToQueueItem: ${e.message}")
+      }
+    }
+
     override fun onSeekTo(pos: Long) {
       try {
         currentPosition = pos
@@ -332,8 +409,22 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
 
     override fun onSetRating(rating: RatingCompat) {
       try {
+        if (!rating.isRated) {
+          println("⚠️ Ignoring unrated rating event")
+          return
+        }
+        // Send the same { rating, type } shape as iOS; JS normalizes it into a MediaRating
+        val value: Any = when (rating.ratingStyle) {
+          RatingCompat.RATING_HEART -> rating.hasHeart()
+          RatingCompat.RATING_THUMB_UP_DOWN -> rating.isThumbUp
+          RatingCompat.RATING_3_STARS,
+          RatingCompat.RATING_4_STARS,
+          RatingCompat.RATING_5_STARS -> rating.starRating.toDouble()
+          RatingCompat.RATING_PERCENTAGE -> rating.percentRating.toDouble()
+          else -> false
+        }
         val data = mapOf(
-          "rating" to rating.getRating(),
+          "rating" to value,
           "type" to when (rating.ratingStyle) {
             RatingCompat.RATING_HEART -> "heart"
             RatingCompat.RATING_THUMB_UP_DOWN -> "thumbsUpDown"
@@ -349,6 +440,57 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
         println("❌ Error in onSetRating: ${e.message}")
       }
     }
+
+    override fun onSetShuffleMode(shuffleMode: Int) {
+      try {
+        val mode = when (shuffleMode) {
+          PlaybackStateCompat.SHUFFLE_MODE_ALL -> "all"
+          PlaybackStateCompat.SHUFFLE_MODE_GROUP -> "group"
+          else -> "off"
+        }
+        sendEventToModule("setShuffleMode", mapOf("mode" to mode))
+      } catch (e: Exception) {
+        println("❌ Error in onSetShuffleMode: ${e.message}")
+      }
+    }
+
+    override fun onSetRepeatMode(repeatMode: Int) {
+      try {
+        // Group repeat has no JS equivalent and is reported as repeating all
+        val mode = when (repeatMode) {
+          PlaybackStateCompat.REPEAT_MODE_ONE -> "one"
+          PlaybackStateCompat.REPEAT_MODE_ALL,
+          PlaybackStateCompat.REPEAT_MODE_GROUP -> "all"
+          else -> "off"
+        }
+        sendEventToModule("setRepeatMode", mapOf("mode" to mode))
+      } catch (e: Exception) {
+        println("❌ Error in onSetRepeatMode: ${e.message}")
+      }
+    }
+
+    override fun onSetPlaybackSpeed(speed: Float) {
+      try {
+        sendEventToModule("changePlaybackRate", mapOf("rate" to speed.toDouble()))
+      } catch (e: Exception) {
+        println("❌ Error in onSetPlaybackSpeed: ${e.message}")
+      }
+    }
+
+    override fun onCustomAction(action: String, extras: Bundle?) {
+      try {
+        if (action.startsWith(FEEDBACK_ACTION_PREFIX)) {
+          // Feedback buttons toggle, so the request is the opposite of the shown state
+          val command = action.removePrefix(FEEDBACK_ACTION_PREFIX)
+          sendEventToModule(command, mapOf("isActive" to !isFeedbackActive(command)))
+          return
+        }
+        // The action name is the custom action id, from both the notification and the session
+        sendEventToModule("custom", mapOf("id" to action))
+      } catch (e: Exception) {
+        println("❌ Error in onCustomAction: ${e.message}")
+      }
+    }
   }
 
   // =============================================
@@ -372,24 +514,76 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
     updateNotification()
   }
 
+  fun updateShuffleMode(mode: String) {
+    mediaSession.setShuffleMode(
+      when (mode) {
+        "all" -> PlaybackStateCompat.SHUFFLE_MODE_ALL
+        "group" -> PlaybackStateCompat.SHUFFLE_MODE_GROUP
+        else -> PlaybackStateCompat.SHUFFLE_MODE_NONE
+      }
+    )
+  }
+
+  fun updateRepeatMode(mode: String) {
+    mediaSession.setRepeatMode(
+      when (mode) {
+        "one" -> PlaybackStateCompat.REPEAT_MODE_ONE
+        "all" -> PlaybackStateCompat.REPEAT_MODE_ALL
+        else -> PlaybackStateCompat.REPEAT_MODE_NONE
+      }
+    )
+  }
+
+  fun updateCustomActions(actions: List<Map<String, Any>>) {
+    customActions = actions
+    updatePlaybackState()
+    updateNotification()
+  }
+
+  fun updateFeedbackState(state: Map<String, Boolean>) {
+    feedbackState = state
+    updatePlaybackState()
+    updateNotification()
+  }
+
   fun updateMetadata(metadata: Map<String, Any>) {
+    // Cancel any in-flight artwork load to prevent stale results overwriting newer metadata
+    artworkLoadJob?.cancel()
+
     val builder = MediaMetadataCompat.Builder()
     
     metadata["title"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_TITLE, it.toString()) }
-    metadata["artist"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_ARTIST, it.toString()) }
-    metadata["album"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_ALBUM, it.toString()) }
+    val artist = metadata["artist"]?.toString()
+      ?: (metadata["artists"] as? List<*>)?.takeIf { it.isNotEmpty() }?.joinToString(", ")
+    artist?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_ARTIST, it) }
+    // Podcasts and audiobooks show their series where music shows the album
+    val album = metadata["album"]?.toString() ?: metadata["showName"]?.toString()
+    album?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_ALBUM, it) }
+    metadata["albumArtist"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_ALBUM_ARTIST, it.toString()) }
+    metadata["composer"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_COMPOSER, it.toString()) }
+    metadata["description"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_DISPLAY_DESCRIPTION, it.toString()) }
     metadata["genre"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_GENRE, it.toString()) }
-    metadata["date"]?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_DATE, it.toString()) }
+    (metadata["date"] ?: metadata["publishDate"])?.let { builder.putString(MediaMetadataCompat.METADATA_KEY_DATE, it.toString()) }
+    if (metadata["isExplicit"] == true) {
+      // Shown as an explicit badge by Android Auto
+      builder.putLong(MediaConstants.METADATA_KEY_IS_EXPLICIT, MediaConstants.METADATA_VALUE_ATTRIBUTE_PRESENT)
+    }
     
     metadata["duration"]?.let {
       val duration = (it as? Number)?.toLong() ?: 0L
       builder.putLong(MediaMetadataCompat.METADATA_KEY_DURATION, duration * 1000)
     }
     
-    metadata["trackNumber"]?.let {
+    // Episodes are numbered like tracks, and seasons like discs
+    (metadata["trackNumber"] ?: metadata["episodeNumber"])?.let {
       val trackNumber = (it as? Number)?.toLong() ?: 0L
       builder.putLong(MediaMetadataCompat.METADATA_KEY_TRACK_NUMBER, trackNumber)
     }
+
+    metadata["seasonNumber"]?.let {
+      val seasonNumber = (it as? Number)?.toLong() ?: 0L
+      builder.putLong(MediaMetadataCompat.METADATA_KEY_DISC_NUMBER, seasonNumber)
+    }
     
     metadata["albumTrackCount"]?.let {
       val trackCount = (it as? Number)?.toLong() ?: 0L
@@ -401,35 +595,68 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
       if (artworkData is Map<*, *>) {
         val uri = artworkData["uri"]?.toString()
         uri?.let { artworkUri ->
-          // Cancel any in-flight artwork load to prevent stale results overwriting newer metadata
-          artworkLoadJob?.cancel()
-          artworkLoadJob = serviceScope.launch {
-            try {
-              val bitmap = loadArtwork(artworkUri)
-              if (bitmap != null) {
-                builder.putBitmap(MediaMetadataCompat.METADATA_KEY_ALBUM_ART, bitmap)
-              } else {
-                println("⚠️ Artwork not found at URI: $artworkUri, updating metadata without artwork")
+          val cachedArtwork = currentArtwork
+          if (artworkUri == currentArtworkUri && cachedArtwork != null) {
+            // Same artwork as the previous update - reuse the bitmap instead of reloading it
+            builder.putBitmap(MediaMetadataCompat.METADATA_KEY_ALBUM_ART, cachedArtwork)
+          } else {
+            artworkLoadJob = serviceScope.launch {
+              try {
+                val bitmap = loadArtwork(artworkUri)
+                if (bitmap != null) {
+                  builder.putBitmap(MediaMetadataCompat.METADATA_KEY_ALBUM_ART, bitmap)
+                  currentArtworkUri = artworkUri
+                  currentArtwork = bitmap
+                } else {
+                  println("⚠️ Artwork not found at URI: $artworkUri, updating metadata without artwork")
+                }
+              } catch (e: CancellationException) {
+                // Superseded by a newer metadata update
+                throw e
+              } catch (e: Exception) {
+                println("⚠️ Failed to load artwork: ${e.message}, updating metadata without artwork")
               }
-            } catch (e: Exception) {
-              println("⚠️ Failed to load artwork: ${e.message}, updating metadata without artwork")
+              // Always update metadata, with or without artwork
+              mediaMetadata = builder.build()
+              mediaSession.setMetadata(mediaMetadata)
+              updateNotification()
             }
-            // Always update metadata, with or without artwork
-            mediaMetadata = builder.build()
-            mediaSession.setMetadata(mediaMetadata)
-            updateNotification()
+            return // Exit early to handle async artwork loading
           }
-          return // Exit early to handle async artwork loading
         }
       }
     }
     
-    // Set metadata without artwork
+    // Set metadata without artwork (or with reused artwork)
     mediaMetadata = builder.build()
     mediaSession.setMetadata(mediaMetadata)
     updateNotification()
   }
 
+  fun updateQueue(items: List<Map<String, Any>>, activeIndex: Int) {
+    queueIds = items.mapNotNull { it["id"]?.toString() }
+    activeQueueIndex = activeIndex
+
+    val queue = items.mapIndexed { index, item ->
+      val description = MediaDescriptionCompat.Builder()
+        .setMediaId(item["id"]?.toString())
+        .setTitle(item["title"]?.toString())
+        .setSubtitle(item["artist"]?.toString())
+        .setDescription(item["album"]?.toString())
+        .apply {
+          // Data URIs are too large to pass to the queue UI
+          item["artworkUri"]?.toString()?.takeUnless { it.startsWith("data:") }?.let {
+            setIconUri(android.net.Uri.parse(it))
+          }
+        }
+        .build()
+      MediaSessionCompat.QueueItem(description, index.toLong())
+    }
+
+    mediaSession.setQueue(if (queue.isEmpty()) null else queue)
+    updatePlaybackState()
+  }
+
   fun updatePlaybackState(state: Int, position: Double?, playbackRate: Double?) {
     currentPlaybackState = when (state) {
       0 -> PlaybackStateCompat.STATE_NONE
@@ -460,9 +687,32 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
   private fun updatePlaybackState() {
     // Use the stored playback rate which reflects actual playback speed
     // This allows Android to calculate progress correctly between updates
-    stateBuilder
+    // A fresh builder drops custom actions that were removed
+    stateBuilder = PlaybackStateCompat.Builder()
       .setActions(getAvailableActions())
       .setState(currentPlaybackState, currentPosition, currentPlaybackRate)
+      .setActiveQueueItemId(
+        if (activeQueueIndex >= 0) activeQueueIndex.toLong()
+        else MediaSessionCompat.QueueItem.UNKNOWN_ID.toLong()
+      )
+
+    // Custom actions on the session are shown by Android 13+ media controls,
+    // Android Auto and Wear OS; feedback commands come first
+    for (command in getEnabledFeedbackCommands()) {
+      stateBuilder.addCustomAction(
+        FEEDBACK_ACTION_PREFIX + command,
+        getFeedbackTitle(command),
+        getFeedbackIconResource(command)
+      )
+    }
+    for (action in customActions) {
+      val id = action["id"] as? String ?: continue
+      stateBuilder.addCustomAction(
+        id,
+        action["title"] as? String ?: id,
+        getCustomActionIconResource(action["icon"] as? String)
+      )
+    }
 
     mediaSession.setPlaybackState(stateBuilder.build())
   }
@@ -477,7 +727,9 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
         PlaybackStateCompat.ACTION_SEEK_TO or
         PlaybackStateCompat.ACTION_FAST_FORWARD or
         PlaybackStateCompat.ACTION_REWIND or
-        PlaybackStateCompat.ACTION_SET_RATING
+        PlaybackStateCompat.ACTION_SET_RATING or
+        PlaybackStateCompat.ACTION_SKIP_TO_QUEUE_ITEM or
+        PlaybackStateCompat.ACTION_PLAY_PAUSE
     )
 
     var actions = 0L
@@ -492,6 +744,11 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
         "skipForward" -> PlaybackStateCompat.ACTION_FAST_FORWARD
         "skipBackward" -> PlaybackStateCompat.ACTION_REWIND
         "setRating" -> PlaybackStateCompat.ACTION_SET_RATING
+        "skipToQueueItem" -> PlaybackStateCompat.ACTION_SKIP_TO_QUEUE_ITEM
+        "togglePlayPause" -> PlaybackStateCompat.ACTION_PLAY_PAUSE
+        "setShuffleMode" -> PlaybackStateCompat.ACTION_SET_SHUFFLE_MODE
+        "setRepeatMode" -> PlaybackStateCompat.ACTION_SET_REPEAT_MODE
+        "changePlaybackRate" -> PlaybackStateCompat.ACTION_SET_PLAYBACK_SPEED
         else -> 0L
       }
     }
@@ -534,7 +791,12 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
     val builder = NotificationCompat.Builder(this, NOTIFICATION_CHANNEL_ID)
       .setSmallIcon(getSmallIconResource())
       .setContentTitle(mediaMetadata?.getString(MediaMetadataCompat.METADATA_KEY_TITLE) ?: "Unknown")
-      .setContentText(mediaMetadata?.getString(MediaMetadataCompat.METADATA_KEY_ARTIST) ?: "Unknown Artist")
+      // Podcast episodes without an author show their show name instead
+      .setContentText(
+        mediaMetadata?.getString(MediaMetadataCompat.METADATA_KEY_ARTIST)
+          ?: mediaMetadata?.getString(MediaMetadataCompat.METADATA_KEY_ALBUM)
+          ?: "Unknown Artist"
+      )
       .setLargeIcon(mediaMetadata?.getBitmap(MediaMetadataCompat.METADATA_KEY_ALBUM_ART))
       .setVisibility(NotificationCompat.VISIBILITY_PUBLIC)
       .setPriority(NotificationCompat.PRIORITY_LOW)
@@ -599,10 +861,11 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
       val seen = mutableSetOf<String>()
       val result = mutableListOf<String>()
       for (cap in capabilities!!) {
-        val normalized = if (cap == "play" || cap == "pause") "playPause" else cap
+        val normalized = normalizeNotificationCommand(cap)
         if (normalized !in seen && normalized in setOf(
             "playPause", "previousTrack", "nextTrack",
-            "skipForward", "skipBackward", "stop"
+            "skipForward", "skipBackward", "stop",
+            "like", "dislike", "bookmark"
           )) {
           seen.add(normalized)
           result.add(normalized)
@@ -671,29 +934,68 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
           )
           addedCommands.add("stop")
         }
+        "like", "dislike", "bookmark" -> {
+          builder.addAction(
+            getFeedbackIconResource(cmd),
+            getFeedbackTitle(cmd),
+            createPendingIntent(
+              when (cmd) {
+                "like" -> ACTION_LIKE
+                "dislike" -> ACTION_DISLIKE
+                else -> ACTION_BOOKMARK
+              }
+            )
+          )
+          addedCommands.add(cmd)
+        }
       }
     }
 
+    customActions.forEachIndexed { index, action ->
+      val id = action["id"] as? String ?: return@forEachIndexed
+      builder.addAction(
+        getCustomActionIconResource(action["icon"] as? String),
+        action["title"] as? String ?: id,
+        createCustomActionPendingIntent(id, index)
+      )
+      addedCommands.add(CUSTOM_ACTION_PREFIX + id)
+    }
+
     return addedCommands
   }
 
   private fun computeCompactViewIndices(addedCommands: List<String>): IntArray {
+    val compactCustomActions = customActions
+      .filter { it["showInCompact"] == true }
+      .mapNotNull { it["id"] as? String }
+      .map { CUSTOM_ACTION_PREFIX + it }
     val compactCaps = compactCapabilities
     if (compactCaps != null) {
       val indices = mutableListOf<Int>()
-      for (cap in compactCaps) {
-        val normalized = if (cap == "play" || cap == "pause") "playPause" else cap
-        val index = addedCommands.indexOf(normalized)
+      for (cap in compactCaps.map { normalizeNotificationCommand(it) } + compactCustomActions) {
+        val index = addedCommands.indexOf(cap)
         if (index >= 0 && index !in indices && indices.size < 3) {
           indices.add(index)
         }
       }
       return indices.toIntArray()
     }
-    // Default: first 3 (or fewer)
-    return (0 until minOf(3, addedCommands.size)).toList().toIntArray()
+    // Default: compact custom actions, filled up with the first commands, in notification order
+    val indices = compactCustomActions
+      .map { addedCommands.indexOf(it) }
+      .filter { it >= 0 }
+      .take(3)
+      .toMutableList()
+    for (index in addedCommands.indices) {
+      if (indices.size >= 3) break
+      if (index !in indices) indices.add(index)
+    }
+    return indices.sorted().toIntArray()
   }
 
+  private fun normalizeNotificationCommand(cap: String): String =
+    if (cap == "play" || cap == "pause" || cap == "togglePlayPause") "playPause" else cap
+
   private fun createPendingIntent(action: String): PendingIntent {
     val intent = Intent(action).apply {
       setPackage(packageName)
@@ -706,6 +1008,58 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
     return PendingIntent.getBroadcast(this, REQUEST_CODE_MEDIA_ACTION, intent, flags)
   }
 
+  private fun createCustomActionPendingIntent(id: String, index: Int): PendingIntent {
+    val intent = Intent(ACTION_CUSTOM).apply {
+      setPackage(packageName)
+      putExtra(EXTRA_CUSTOM_ACTION_ID, id)
+    }
+    val flags = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.M) {
+      PendingIntent.FLAG_IMMUTABLE or PendingIntent.FLAG_UPDATE_CURRENT
+    } else {
+      PendingIntent.FLAG_UPDATE_CURRENT
+    }
+    // A request code per action keeps each action's extras from overwriting the others
+    return PendingIntent.getBroadcast(this, REQUEST_CODE_CUSTOM_ACTION + index, intent, flags)
+  }
+
+  /**
+   * Resolve a custom action icon from the app's drawable resources
+   * Falls back to a system icon when the drawable does not exist
+   */
+  private fun getCustomActionIconResource(iconName: String?): Int {
+    if (iconName != null) {
+      val cleanIconName = iconName.substringAfterLast("/").substringBeforeLast(".")
+      val resourceId = resources.getIdentifier(cleanIconName, "drawable", packageName)
+      if (resourceId != 0) {
+        return resourceId
+      }
+      println("⚠️ Custom action icon '$cleanIconName' not found in drawable resources")
+    }
+    return android.R.drawable.ic_menu_more
+  }
+
+  private fun getEnabledFeedbackCommands(): List<String> =
+    FEEDBACK_FIELDS.keys.filter { capabilities?.contains(it) == true }
+
+  private fun isFeedbackActive(command: String): Boolean =
+    feedbackState[FEEDBACK_FIELDS[command]] == true
+
+  private fun getFeedbackTitle(command: String): String = when (command) {
+    "like" -> "Like"
+    "dislike" -> "Dislike"
+    else -> "Bookmark"
+  }
+
+  private fun getFeedbackIconResource(command: String): Int {
+    // Filled icons show active feedback, outlines inactive
+    val active = isFeedbackActive(command)
+    return when (command) {
+      "like" -> if (active) R.drawable.expo_media_control_thumb_up else R.drawable.expo_media_control_thumb_up_outline
+      "dislike" -> if (active) R.drawable.expo_media_control_thumb_down else R.drawable.expo_media_control_thumb_down_outline
+      else -> if (active) R.drawable.expo_media_control_bookmark else R.drawable.expo_media_control_bookmark_outline
+    }
+  }
+
   private fun getSmallIconResource(): Int {
     // First try to get custom notification icon from metadata
     return try {
@@ -774,6 +1128,10 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
       addAction(ACTION_PREVIOUS)
       addAction(ACTION_SKIP_FORWARD)
       addAction(ACTION_SKIP_BACKWARD)
+      addAction(ACTION_CUSTOM)
+      addAction(ACTION_LIKE)
+      addAction(ACTION_DISLIKE)
+      addAction(ACTION_BOOKMARK)
     }
     
     // Register receiver with proper flags for Android 14+
@@ -800,26 +1158,7 @@ class MediaPlaybackService : MediaBrowserServiceCompat() {
   // =============================================
 
   private suspend fun loadArtwork(uri: String): Bitmap? {
-    return try {
-      withContext(Dispatchers.IO) {
-        if (uri.startsWith("http")) {
-          // Load remote artwork on IO thread (simplified - you might want to add caching)
-          val url = java.net.URL(uri)
-          val connection = url.openConnection()
-          connection.connectTimeout = 5000 // 5 second timeout
-          connection.readTimeout = 5000    // 5 second read timeout
-          android.graphics.BitmapFactory.decodeStream(connection.getInputStream())
-        } else {
-          // Load local artwork
-          contentResolver.openInputStream(android.net.Uri.parse(uri))?.use { inputStream ->
-            android.graphics.BitmapFactory.decodeStream(inputStream)
-          }
-        }
-      }
-    } catch (e: Exception) {
-      println("❌ Failed to load artwork: ${e.message}")
-      null
-    }
+    return ArtworkCache.load(this, uri)
   }
 
   fun getMediaSession(): MediaSessionCompat = mediaSession
@@ -0,0 +1,222 @@
+import UIKit
+
+/**
+ * Cache of decoded artwork images
+ *
+ * Used for metadata artwork and prefetchArtwork, so a prefetched image is ready when
+ * the track changes. Entries are evicted least recently used first once maxEntries or
+ * maxBytes is exceeded, and expire ttl seconds after loading. Concurrent requests for
+ * the same URI share a single load.
+ */
+actor ArtworkCache {
+  private static let defaultMaxBytes = 32 * 1024 * 1024
+  private static let defaultMaxEntries = 20
+  private static let defaultTTL: TimeInterval = 60 * 60
+
+  private struct Entry {
+    let image: UIImage
+    let bytes: Int
+    let loadedAt: Date
+  }
+
+  private var entries: [String: Entry] = [:]
+
+  /// Cached URIs, least recently used first
+  private var accessOrder: [String] = []
+
+  /// Loads in flight, joined by later requests for the same URI
+  private var pendingLoads: [String: Task<UIImage?, Never>] = [:]
+
+  /// Bumped by clear(), so loads started before it do not refill the cache
+  private var generation = 0
+
+  private var maxBytes = ArtworkCache.defaultMaxBytes
+  private var maxEntries = ArtworkCache.defaultMaxEntries
+  private var ttl = ArtworkCache.defaultTTL
+  private var totalBytes = 0
+  private var hits = 0
+  private var misses = 0
+
+  /**
+   * Apply the artworkCache options ({ maxBytes, maxEntries, ttl }), using defaults for missing fields
+   */
+  func configure(options: [String: Any]?) {
+    maxBytes = (options?["maxBytes"] as? NSNumber)?.intValue ?? ArtworkCache.defaultMaxBytes
+    maxEntries = (options?["maxEntries"] as? NSNumber)?.intValue ?? ArtworkCache.defaultMaxEntries
+    ttl = (options?["ttl"] as? NSNumber)?.doubleValue ?? ArtworkCache.defaultTTL
+    trim()
+  }
+
+  /**
+   * Get the image for an artwork URI, from the cache when possible
+   * Returns nil when the image cannot be loaded
+   */
+  func image(for uri: String) async -> UIImage? {
+    if let entry = getEntry(uri) {
+      hits += 1
+      return entry.image
+    }
+    if let pending = pendingLoads[uri] {
+      hits += 1
+      return await pending.value
+    }
+
+    misses += 1
+    // Detached so a superseded metadata update does not cancel the load for everyone
+    let load = Task.detached { await ArtworkCache.loadImage(uri: uri) }
+    let loadGeneration = generation
+    pendingLoads[uri] = load
+    let image = await load.value
+    if loadGeneration == generation {
+      pendingLoads[uri] = nil
+      if let image = image {
+        put(uri, image: image)
+      }
+    }
+    return image
+  }
+
+  /**
+   * Remove all entries and reset the hit and miss counts
+   * Loads in flight still finish for their callers, but are not cached
+   */
+  func clear() {
+    generation += 1
+    pendingLoads.removeAll()
+    entries.removeAll()
+    accessOrder.removeAll()
+    totalBytes = 0
+    hits = 0
+    misses = 0
+  }
+
+  /**
+   * Current contents and counters ({ entries, bytes, hits, misses })
+   */
+  func getStats() -> [String: Any] {
+    removeExpired()
+    return [
+      "entries": entries.count,
+      "bytes": totalBytes,
+      "hits": hits,
+      "misses": misses
+    ]
+  }
+
+  private func isExpired(_ entry: Entry) -> Bool {
+    return ttl > 0 && Date().timeIntervalSince(entry.loadedAt) > ttl
+  }
+
+  private func getEntry(_ uri: String) -> Entry? {
+    guard let entry = entries[uri] else {
+      return nil
+    }
+    if isExpired(entry) {
+      remove(uri)
+      return nil
+    }
+    accessOrder.removeAll { $0 == uri }
+    accessOrder.append(uri)
+    return entry
+  }
+
+  private func put(_ uri: String, image: UIImage) {
+    // Decoded size, which is what the image occupies in memory
+    let bytes = Int(image.size.width * image.scale * image.size.height * image.scale) * 4
+    remove(uri)
+    // A cache limit of 0 turns caching off; oversized images are not worth evicting everything for
+    if maxEntries <= 0 || bytes > maxBytes {
+      return
+    }
+    entries[uri] = Entry(image: image, bytes: bytes, loadedAt: Date())
+    accessOrder.append(uri)
+    totalBytes += bytes
+    trim()
+  }
+
+  private func remove(_ uri: String) {
+    if let entry = entries.removeValue(forKey: uri) {
+      totalBytes -= entry.bytes
+      accessOrder.removeAll { $0 == uri }
+    }
+  }
+
+  private func removeExpired() {
+    for (uri, entry) in entries where isExpired(entry) {
+      remove(uri)
+    }
+  }
+
+  /// Evict least recently used entries until both limits are met
+  private func trim() {
+    removeExpired()
+    while let oldest = accessOrder.first, entries.count > maxEntries || totalBytes > maxBytes {
+      remove(oldest)
+    }
+  }
+
+  // =============================================
+  // IMAGE LOADING
+  // =============================================
+
+  private static func loadImage(uri: String) async -> UIImage? {
+    if uri.hasPrefix("http://") || uri.hasPrefix("https://") {
+      return await loadRemoteImage(uri: uri)
+    } else if uri.hasPrefix("data:") {
+      return loadDataImage(uri: uri)
+    } else {
+      return loadLocalImage(uri: uri)
+    }
+  }
+
+  /**
+   * Download an image from a remote URL
+   */
+  private static func loadRemoteImage(uri: String) async -> UIImage? {
+    guard let url = URL(string: uri) else {
+      return nil
+    }
+
+    do {
+      let (data, _) = try await URLSession.shared.data(from: url)
+      return UIImage(data: data)
+    } catch {
+      print("❌ Failed to load remote artwork: \(error)")
+      return nil
+    }
+  }
+
+  /**
+   * Decode a base64 image data URI (checked in JS)
+   */
+  private static func loadDataImage(uri: String) -> UIImage? {
+    guard let commaIndex = uri.firstIndex(of: ","),
+          let data = Data(base64Encoded: String(uri[uri.index(after: commaIndex)...]), options: .ignoreUnknownCharacters),
+          let image = UIImage(data: data) else {
+      print("❌ Failed to decode data URI artwork")
+      return nil
+    }
+    return image
+  }
+
+  /**
+   * Load an image from the file system or app bundle
+   */
+  private static func loadLocalImage(uri: String) -> UIImage? {
+    var imagePath = uri
+
+    // Turn file URLs into paths, decoding escapes such as %20
+    if imagePath.hasPrefix("file://") {
+      imagePath = URL(string: imagePath)?.path ?? String(imagePath.dropFirst(7))
+    }
+
+    // Try the file system first, then the app bundle
+    let image = FileManager.default.fileExists(atPath: imagePath)
+      ? UIImage(contentsOfFile: imagePath)
+      : UIImage(named: imagePath)
+    if image == nil {
+      print("❌ Failed to load local artwork: \(imagePath)")
+    }
+    return image
+  }
+}
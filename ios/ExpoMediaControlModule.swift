@@ -27,6 +27,17 @@ public class ExpoMediaControlModule: Module {
   /// Current playback rate/speed (1.0 = normal speed, 2.0 = 2x speed, etc.)
   private var currentPlaybackRate: Double = 1.0
 
+  /// Last loaded artwork, reused while the artwork URI is unchanged
+
+  /// Decoded artwork shared by metadata updates and prefetchArtwork
+  private let artworkCache = ArtworkCache()
+
+  /// Index of the active queue item (-1 = no queue)
+  private var queueIndex: Int = -1
+
+  /// Number of items in the playback queue
+  private var queueCount: Int = 0
+
   /// Whether media controls are currently enabled
   private var isControlsEnabled: Bool = false
   
@@ -38,6 +49,30 @@ public class ExpoMediaControlModule: Module {
 
   /// Enabled capabilities (nil = all enabled for backward compatibility)
   private var enabledCapabilities: [String]? = nil
+
+  /// Custom actions shown as feedback commands ({ id, title, icon, showInCompact })
+  private var customActions: [[String: Any]] = []
+
+  /// Feedback state shown on the like, dislike and bookmark commands ({ liked, disliked, bookmarked })
+  private var feedbackState: [String: Bool] = [:]
+
+  /// Observation of the output volume, active while JavaScript listens for volume changes
+  private var volumeObservation: NSKeyValueObservation? = nil
+
+  /// Whether JavaScript listens for media control events; Expo drops events sent before it does
+  private var isObservingMediaControlEvents: Bool = false
+
+  /// Media control events received while JavaScript was not listening, oldest first (main thread only)
+  private var pendingMediaControlEvents: [[String: Any]] = []
+
+  /// Default limits for pendingMediaControlEvents (matching the JS event buffer)
+  private static let defaultMaxPendingEvents = 10
+  private static let defaultPendingEventTTL: Double = 5000 // ms
+
+  /// Limits for pendingMediaControlEvents, set from the JS event buffer options (main thread only)
+  private var pendingEventsEnabled = true
+  private var maxPendingEvents = ExpoMediaControlModule.defaultMaxPendingEvents
+  private var pendingEventTTL = ExpoMediaControlModule.defaultPendingEventTTL
   
   /// Remote command center reference for managing remote controls
   private var remoteCommandCenter: MPRemoteCommandCenter {
@@ -92,6 +127,14 @@ public class ExpoMediaControlModule: Module {
       return try await self.updateMetadata(metadata: metadata)
     }
 
+    /**
+     * Merge changed metadata fields into the current metadata
+     * Fields set to null are removed; unchanged artwork is not reloaded
+     */
+    AsyncFunction("patchMetadata") { (changes: [String: Any]) in
+      return try await self.patchMetadata(changes: changes)
+    }
+
     /**
      * Update the current playback state and position
      * Informs the system about current playback status for proper UI updates
@@ -111,6 +154,48 @@ public class ExpoMediaControlModule: Module {
       return try await self.resetControls()
     }
 
+    /**
+     * Publish the playback queue position
+     * iOS has no queue UI, but shows "n of m" from the queue index and count
+     * @param items - Queue entries in display order
+     * @param activeIndex - Index of the active item, or -1 when none is active
+     */
+    AsyncFunction("updateQueue") { (items: [[String: Any]], activeIndex: Int) in
+      return try await self.updateQueue(items: items, activeIndex: activeIndex)
+    }
+
+    /**
+     * Replace the custom actions shown as feedback commands
+     * @param actions - Custom actions ({ id, title, icon, showInCompact })
+     */
+    AsyncFunction("updateCustomActions") { (actions: [[String: Any]]) in
+      return try await self.updateCustomActions(actions: actions)
+    }
+
+    /**
+     * Publish the current shuffle mode to the shuffle command
+     * @param mode - "off", "all" or "group"
+     */
+    AsyncFunction("setShuffleMode") { (mode: String) in
+      return try await self.setShuffleMode(mode: mode)
+    }
+
+    /**
+     * Publish the current repeat mode to the repeat command
+     * @param mode - "off", "one" or "all"
+     */
+    AsyncFunction("setRepeatMode") { (mode: String) in
+      return try await self.setRepeatMode(mode: mode)
+    }
+
+    /**
+     * Publish the like, dislike and bookmark state to the feedback commands
+     * @param state - { liked, disliked, bookmarked }
+     */
+    AsyncFunction("setFeedbackState") { (state: [String: Bool]) in
+      return try await self.setFeedbackState(state: state)
+    }
+
     // =============================================
     // STATE QUERY METHODS
     // Methods for retrieving current state information
@@ -140,6 +225,69 @@ public class ExpoMediaControlModule: Module {
       return self.currentPlaybackState
     }
 
+    // =============================================
+    // VOLUME METHODS
+    // Methods for reading the system output volume
+    // =============================================
+
+    /**
+     * Get the current output volume
+     * Returns volume (0.0 - 1.0), muted and streamType
+     */
+    AsyncFunction("getVolume") { () -> [String: Any] in
+      return self.getVolumeState()
+    }
+
+    /**
+     * Set the system volume
+     * iOS does not allow apps to change the system volume, so this always rejects
+     */
+    AsyncFunction("setVolume") { (level: Double) in
+      throw VolumeNotSettableException()
+    }
+
+    // =============================================
+    // ARTWORK CACHE METHODS
+    // Methods for preloading and managing cached artwork
+    // =============================================
+
+    /**
+     * Load artwork into the cache so a later metadata update shows it immediately
+     * @param uri - Artwork URI (checked in JS)
+     */
+    AsyncFunction("prefetchArtwork") { (uri: String) in
+      if await self.artworkCache.image(for: uri) == nil {
+        throw ArtworkPrefetchException(uri)
+      }
+    }
+
+    /**
+     * Remove all cached artwork and reset the cache counters
+     */
+    AsyncFunction("clearArtworkCache") {
+      await self.artworkCache.clear()
+    }
+
+    /**
+     * Get the number and size of cached images with hit and miss counts
+     */
+    AsyncFunction("getArtworkCacheStats") { () -> [String: Any] in
+      return await self.artworkCache.getStats()
+    }
+
+    /**
+     * Apply the JS event buffer options ({ enabled, maxSize, ttl }) to events kept until JavaScript listens
+     */
+    AsyncFunction("configureEventBuffer") { (options: [String: Any]) in
+      DispatchQueue.main.async { [weak self] in
+        guard let self = self else { return }
+        self.pendingEventsEnabled = options["enabled"] as? Bool ?? true
+        self.maxPendingEvents = (options["maxSize"] as? NSNumber)?.intValue ?? ExpoMediaControlModule.defaultMaxPendingEvents
+        self.pendingEventTTL = (options["ttl"] as? NSNumber)?.doubleValue ?? ExpoMediaControlModule.defaultPendingEventTTL
+        self.trimPendingMediaControlEvents()
+      }
+    }
+
     // =============================================
     // EVENT DEFINITIONS
     // Define events that can be sent to JavaScript
@@ -147,6 +295,28 @@ public class ExpoMediaControlModule: Module {
     
     /// Event fired when media control commands are received (play, pause, next, etc.)
     Events("mediaControlEvent", "volumeChange")
+
+    /// Only observe the output volume while JavaScript listens for it
+    OnStartObserving("volumeChange") {
+      self.startVolumeObserver()
+    }
+
+    OnStopObserving("volumeChange") {
+      self.stopVolumeObserver()
+    }
+
+    /// Replay commands that arrived before JavaScript listened, e.g. the one that launched the app
+    OnStartObserving("mediaControlEvent") {
+      DispatchQueue.main.async { [weak self] in
+        self?.flushPendingMediaControlEvents()
+      }
+    }
+
+    OnStopObserving("mediaControlEvent") {
+      DispatchQueue.main.async { [weak self] in
+        self?.isObservingMediaControlEvents = false
+      }
+    }
   }
 
   // =============================================
@@ -170,9 +340,12 @@ public class ExpoMediaControlModule: Module {
       if let opts = options {
         controlOptions = opts
         enabledCapabilities = opts["capabilities"] as? [String]
+        customActions = opts["customActions"] as? [[String: Any]] ?? []
       } else {
         enabledCapabilities = nil
+        customActions = []
       }
+      await artworkCache.configure(options: options?["artworkCache"] as? [String: Any])
       
       // Configure audio session for playback (this might fail with OSStatus -50)
       try await configureAudioSession()
@@ -180,6 +353,7 @@ public class ExpoMediaControlModule: Module {
       // Register remote command handlers on main thread
       await MainActor.run {
         registerRemoteCommandHandlers()
+        updateFeedbackCommands()
       }
       
       // Mark controls as enabled
@@ -230,9 +404,17 @@ public class ExpoMediaControlModule: Module {
     currentPlaybackState = 0 // PlaybackState.NONE
     currentPosition = 0.0
     currentPlaybackRate = 1.0
+    queueIndex = -1
+    queueCount = 0
     controlOptions.removeAll()
     isRatingEnabled = false
     enabledCapabilities = nil
+    customActions = []
+    feedbackState = [:]
+    await artworkCache.clear()
+    DispatchQueue.main.async { [weak self] in
+      self?.pendingMediaControlEvents.removeAll()
+    }
     
     print("📱 Media controls disabled successfully")
   }
@@ -254,10 +436,45 @@ public class ExpoMediaControlModule: Module {
     
     if let artist = metadata["artist"] as? String {
       nowPlayingInfo[MPMediaItemPropertyArtist] = artist
+    } else if let artists = metadata["artists"] as? [String], !artists.isEmpty {
+      nowPlayingInfo[MPMediaItemPropertyArtist] = artists.joined(separator: ", ")
     }
     
+    // Podcasts and audiobooks show their series where music shows the album
     if let album = metadata["album"] as? String {
       nowPlayingInfo[MPMediaItemPropertyAlbumTitle] = album
+    } else if let showName = metadata["showName"] as? String {
+      nowPlayingInfo[MPMediaItemPropertyAlbumTitle] = showName
+    }
+    
+    if let showName = metadata["showName"] as? String {
+      nowPlayingInfo[MPMediaItemPropertyPodcastTitle] = showName
+    }
+    
+    if let albumArtist = metadata["albumArtist"] as? String {
+      nowPlayingInfo[MPMediaItemPropertyAlbumArtist] = albumArtist
+    }
+    
+    if let composer = metadata["composer"] as? String {
+      nowPlayingInfo[MPMediaItemPropertyComposer] = composer
+    }
+    
+    if let description = metadata["description"] as? String {
+      nowPlayingInfo[MPMediaItemPropertyComments] = description
+    }
+    
+    if let publishDate = metadata["publishDate"] as? String,
+       let releaseDate = parseISODate(publishDate) {
+      nowPlayingInfo[MPMediaItemPropertyReleaseDate] = releaseDate
+    }
+    
+    if let isExplicit = metadata["isExplicit"] as? Bool {
+      nowPlayingInfo[MPMediaItemPropertyIsExplicit] = NSNumber(value: isExplicit)
+    }
+    
+    if let mediaType = metadata["mediaType"] as? String {
+      let type: MPNowPlayingInfoMediaType = mediaType == "video" ? .video : .audio
+      nowPlayingInfo[MPNowPlayingInfoPropertyMediaType] = NSNumber(value: type.rawValue)
     }
 
     if let duration = metadata["duration"] as? Double {
@@ -272,10 +489,15 @@ public class ExpoMediaControlModule: Module {
       nowPlayingInfo[MPMediaItemPropertyGenre] = genre
     }
     
-    if let trackNumber = metadata["trackNumber"] as? Int {
+    // Episodes are numbered like tracks, and seasons like discs
+    if let trackNumber = (metadata["trackNumber"] ?? metadata["episodeNumber"]) as? Int {
       nowPlayingInfo[MPMediaItemPropertyAlbumTrackNumber] = trackNumber
     }
     
+    if let seasonNumber = metadata["seasonNumber"] as? Int {
+      nowPlayingInfo[MPMediaItemPropertyDiscNumber] = seasonNumber
+    }
+    
     if let albumTrackCount = metadata["albumTrackCount"] as? Int {
       nowPlayingInfo[MPMediaItemPropertyAlbumTrackCount] = albumTrackCount
     }
@@ -324,22 +546,26 @@ public class ExpoMediaControlModule: Module {
     }
     
     // Update rating commands based on current metadata
-    updateRatingCommands()
+    updateFeedbackCommands()
     
     // Set elapsed time
     nowPlayingInfo[MPNowPlayingInfoPropertyElapsedPlaybackTime] = currentPosition
 
     // Set playback rate - use the stored rate which reflects actual playback speed
     nowPlayingInfo[MPNowPlayingInfoPropertyPlaybackRate] = currentPlaybackRate
+
+    // Keep queue position across metadata updates
+    applyQueueInfo(to: &nowPlayingInfo)
     
     // Handle artwork asynchronously
     if let artworkDict = metadata["artwork"] as? [String: Any],
        let uri = artworkDict["uri"] as? String {
+      // Unchanged artwork comes from the artwork cache instead of being reloaded
       await loadArtwork(uri: uri) { [weak self] artwork in
         if let artwork = artwork {
           nowPlayingInfo[MPMediaItemPropertyArtwork] = artwork
         }
-        
+
         // Update now playing info center
         DispatchQueue.main.async {
           self?.nowPlayingInfoCenter.nowPlayingInfo = nowPlayingInfo
@@ -351,10 +577,28 @@ public class ExpoMediaControlModule: Module {
         self?.nowPlayingInfoCenter.nowPlayingInfo = nowPlayingInfo
       }
     }
-    
+
     print("📱 Metadata updated: \(metadata["title"] ?? "Unknown") - \(metadata["artist"] ?? "Unknown")")
   }
 
+  /**
+   * Patch metadata implementation
+   * Merges changed fields into the current metadata and re-applies it
+   * Null values (NSNull) remove the field
+   */
+  private func patchMetadata(changes: [String: Any]) async throws {
+    var merged = currentMetadata
+    for (key, value) in changes {
+      if value is NSNull {
+        merged.removeValue(forKey: key)
+      } else {
+        merged[key] = value
+      }
+    }
+
+    try await updateMetadata(metadata: merged)
+  }
+
   /**
    * Update playback state implementation
    * Updates the system about current playback status
@@ -402,6 +646,109 @@ public class ExpoMediaControlModule: Module {
     print("📱 Playback state updated: \(state), position: \(currentPosition), rate: \(currentPlaybackRate)")
   }
 
+  /**
+   * Update queue implementation
+   * Stores the queue position and updates MPNowPlayingInfoCenter
+   * @param items - Queue entries in display order
+   * @param activeIndex - Index of the active item, or -1 when none is active
+   */
+  private func updateQueue(items: [[String: Any]], activeIndex: Int) async throws {
+    queueCount = items.count
+    queueIndex = items.indices.contains(activeIndex) ? activeIndex : -1
+
+    var nowPlayingInfo = nowPlayingInfoCenter.nowPlayingInfo ?? [:]
+    applyQueueInfo(to: &nowPlayingInfo)
+
+    DispatchQueue.main.async { [weak self] in
+      self?.nowPlayingInfoCenter.nowPlayingInfo = nowPlayingInfo
+    }
+
+    print("📱 Queue updated: \(queueCount) items, active: \(queueIndex)")
+  }
+
+  /**
+   * Write the queue index and count into now playing info
+   * Removes both keys when no queue item is active
+   */
+  private func applyQueueInfo(to nowPlayingInfo: inout [String: Any]) {
+    if queueIndex >= 0 {
+      nowPlayingInfo[MPNowPlayingInfoPropertyPlaybackQueueIndex] = queueIndex
+      nowPlayingInfo[MPNowPlayingInfoPropertyPlaybackQueueCount] = queueCount
+    } else {
+      nowPlayingInfo.removeValue(forKey: MPNowPlayingInfoPropertyPlaybackQueueIndex)
+      nowPlayingInfo.removeValue(forKey: MPNowPlayingInfoPropertyPlaybackQueueCount)
+    }
+  }
+
+  /**
+   * Update custom actions implementation
+   * Stores the actions and shows them on the feedback commands
+   * @param actions - Custom actions ({ id, title, icon, showInCompact })
+   */
+  private func updateCustomActions(actions: [[String: Any]]) async throws {
+    customActions = actions
+    controlOptions["customActions"] = actions
+
+    await MainActor.run {
+      updateFeedbackCommands()
+    }
+
+    print("📱 Custom actions updated: \(actions.count) actions")
+  }
+
+  /**
+   * Set shuffle mode implementation
+   * Shuffling items maps to "all", shuffling collections to "group"
+   * @param mode - "off", "all" or "group"
+   */
+  private func setShuffleMode(mode: String) async throws {
+    let shuffleType: MPShuffleType
+    switch mode {
+    case "all": shuffleType = .items
+    case "group": shuffleType = .collections
+    default: shuffleType = .off
+    }
+
+    await MainActor.run {
+      remoteCommandCenter.changeShuffleModeCommand.currentShuffleType = shuffleType
+    }
+
+    print("📱 Shuffle mode updated: \(mode)")
+  }
+
+  /**
+   * Set repeat mode implementation
+   * @param mode - "off", "one" or "all"
+   */
+  private func setRepeatMode(mode: String) async throws {
+    let repeatType: MPRepeatType
+    switch mode {
+    case "one": repeatType = .one
+    case "all": repeatType = .all
+    default: repeatType = .off
+    }
+
+    await MainActor.run {
+      remoteCommandCenter.changeRepeatModeCommand.currentRepeatType = repeatType
+    }
+
+    print("📱 Repeat mode updated: \(mode)")
+  }
+
+  /**
+   * Set feedback state implementation
+   * @param state - { liked, disliked, bookmarked }
+   */
+  private func setFeedbackState(state: [String: Bool]) async throws {
+    feedbackState = state
+
+    await MainActor.run {
+      updateFeedbackCommands()
+    }
+
+    print("📱 Feedback state updated: \(state)")
+  }
+
   /**
    * Reset controls implementation
    * Clears all information and returns to initial state
@@ -411,10 +758,16 @@ public class ExpoMediaControlModule: Module {
     currentPlaybackState = 0 // PlaybackState.NONE
     currentPosition = 0.0
     currentPlaybackRate = 1.0
+    queueIndex = -1
+    queueCount = 0
     isRatingEnabled = false
+    feedbackState = [:]
     
-    // Update rating commands to reflect disabled state
-    updateRatingCommands()
+    // Update feedback commands to reflect disabled rating and cleared feedback
+    updateFeedbackCommands()
+    
+    remoteCommandCenter.changeShuffleModeCommand.currentShuffleType = .off
+    remoteCommandCenter.changeRepeatModeCommand.currentRepeatType = .off
     
     // Clear now playing info
     DispatchQueue.main.async { [weak self] in
@@ -424,6 +777,50 @@ public class ExpoMediaControlModule: Module {
     print("📱 Controls reset to initial state")
   }
 
+  // =============================================
+  // VOLUME MANAGEMENT
+  // Methods for reading and observing the output volume
+  // =============================================
+
+  /**
+   * Read the output volume as sent to JavaScript
+   * iOS has no mute state for the output, so a volume of 0 is reported as muted
+   */
+  private func getVolumeState() -> [String: Any] {
+    let volume = Double(audioSession.outputVolume)
+    return [
+      "volume": volume,
+      "muted": volume <= 0,
+      "streamType": "output"
+    ]
+  }
+
+  /**
+   * Start reporting output volume changes to JavaScript
+   * The audio session only updates outputVolume while it is active
+   */
+  private func startVolumeObserver() {
+    guard volumeObservation == nil else { return }
+
+    volumeObservation = audioSession.observe(\.outputVolume, options: [.new]) { [weak self] _, _ in
+      guard let self = self else { return }
+      var event = self.getVolumeState()
+      // Apps cannot set the volume on iOS, so every change comes from the user
+      event["userInitiated"] = true
+      self.sendEvent("volumeChange", event)
+    }
+    print("📱 Volume observer started")
+  }
+
+  /**
+   * Stop reporting output volume changes to JavaScript
+   */
+  private func stopVolumeObserver() {
+    volumeObservation?.invalidate()
+    volumeObservation = nil
+    print("📱 Volume observer stopped")
+  }
+
   // =============================================
   // AUDIO SESSION MANAGEMENT
   // Methods for configuring and managing the audio session
@@ -650,17 +1047,123 @@ public class ExpoMediaControlModule: Module {
       commandCenter.changePlaybackPositionCommand.isEnabled = false
     }
     
+    // Toggle play/pause command (headset button)
+    // Opt-in only: without a target, iOS sends headset presses as play/pause
+    if enabledCapabilities?.contains("togglePlayPause") == true {
+      commandCenter.togglePlayPauseCommand.isEnabled = true
+      commandCenter.togglePlayPauseCommand.addTarget { [weak self] event in
+        self?.handleRemoteCommand(command: "togglePlayPause", data: nil)
+        return .success
+      }
+    } else {
+      commandCenter.togglePlayPauseCommand.isEnabled = false
+    }
+    
+    // Shuffle and repeat commands (CarPlay, watchOS)
+    // Opt-in only, so apps without shuffle or repeat don't show dead toggles
+    if enabledCapabilities?.contains("setShuffleMode") == true {
+      commandCenter.changeShuffleModeCommand.isEnabled = true
+      commandCenter.changeShuffleModeCommand.addTarget { [weak self] event in
+        guard let shuffleEvent = event as? MPChangeShuffleModeCommandEvent else {
+          return .commandFailed
+        }
+        let mode: String
+        switch shuffleEvent.shuffleType {
+        case .items: mode = "all"
+        case .collections: mode = "group"
+        default: mode = "off"
+        }
+        self?.handleRemoteCommand(command: "setShuffleMode", data: ["mode": mode])
+        return .success
+      }
+    } else {
+      commandCenter.changeShuffleModeCommand.isEnabled = false
+    }
+    
+    if enabledCapabilities?.contains("setRepeatMode") == true {
+      commandCenter.changeRepeatModeCommand.isEnabled = true
+      commandCenter.changeRepeatModeCommand.addTarget { [weak self] event in
+        guard let repeatEvent = event as? MPChangeRepeatModeCommandEvent else {
+          return .commandFailed
+        }
+        let mode: String
+        switch repeatEvent.repeatType {
+        case .one: mode = "one"
+        case .all: mode = "all"
+        default: mode = "off"
+        }
+        self?.handleRemoteCommand(command: "setRepeatMode", data: ["mode": mode])
+        return .success
+      }
+    } else {
+      commandCenter.changeRepeatModeCommand.isEnabled = false
+    }
+    
+    // Playback rate command (CarPlay, watchOS), opt-in like shuffle and repeat
+    if enabledCapabilities?.contains("changePlaybackRate") == true {
+      commandCenter.changePlaybackRateCommand.isEnabled = true
+      commandCenter.changePlaybackRateCommand.supportedPlaybackRates = getSupportedPlaybackRates()
+      commandCenter.changePlaybackRateCommand.addTarget { [weak self] event in
+        guard let rateEvent = event as? MPChangePlaybackRateCommandEvent else {
+          return .commandFailed
+        }
+        self?.handleRemoteCommand(
+          command: "changePlaybackRate",
+          data: ["rate": Double(rateEvent.playbackRate)]
+        )
+        return .success
+      }
+    } else {
+      commandCenter.changePlaybackRateCommand.isEnabled = false
+    }
+    
     print("📱 Remote command handlers registered")
   }
   
   /**
-   * Update rating commands based on current rating state
-   * Enables/disables like/dislike commands based on whether rating is available
+   * Update feedback commands (like, dislike, bookmark)
+   * Commands enabled as capabilities show the feedback state and report feedback
+   * events. While rating is available, like/dislike report heart ratings; the
+   * remaining feedback commands show custom actions in order, titled with the action title
    */
-  private func updateRatingCommands() {
+  private func updateFeedbackCommands() {
     let commandCenter = remoteCommandCenter
+    let feedbackCommands: [(name: String, field: String, title: String, command: MPFeedbackCommand)] = [
+      ("like", "liked", "Like", commandCenter.likeCommand),
+      ("dislike", "disliked", "Dislike", commandCenter.dislikeCommand),
+      ("bookmark", "bookmarked", "Bookmark", commandCenter.bookmarkCommand)
+    ]
+    var availableCommands: [MPFeedbackCommand] = []
+    
+    // Remove previous handlers so targets are never registered twice
+    for feedback in feedbackCommands {
+      feedback.command.removeTarget(nil)
+      feedback.command.isEnabled = false
+      feedback.command.isActive = false
+      feedback.command.localizedTitle = feedback.title
+    }
     
-    if isRatingEnabled {
+    // Feedback capabilities take their own command first
+    for feedback in feedbackCommands {
+      guard enabledCapabilities?.contains(feedback.name) == true else {
+        availableCommands.append(feedback.command)
+        continue
+      }
+      let name = feedback.name
+      feedback.command.isEnabled = true
+      feedback.command.isActive = feedbackState[feedback.field] ?? false
+      feedback.command.addTarget { [weak self] event in
+        // A negative event asks to take the feedback back
+        let isNegative = (event as? MPFeedbackCommandEvent)?.isNegative ?? false
+        self?.handleRemoteCommand(command: name, data: ["isActive": !isNegative])
+        return .success
+      }
+    }
+    
+    let isAvailable = { (command: MPFeedbackCommand) in
+      availableCommands.contains { $0 === command }
+    }
+    if isRatingEnabled && isAvailable(commandCenter.likeCommand) && isAvailable(commandCenter.dislikeCommand) {
       // Enable rating commands
       commandCenter.likeCommand.isEnabled = true
       commandCenter.likeCommand.addTarget { [weak self] event in
@@ -676,16 +1179,22 @@ public class ExpoMediaControlModule: Module {
         return .success
       }
       
+      availableCommands.removeAll { $0 === commandCenter.likeCommand || $0 === commandCenter.dislikeCommand }
       print("📱 Rating commands enabled")
-    } else {
-      // Disable and remove rating command handlers
-      commandCenter.likeCommand.isEnabled = false
-      commandCenter.likeCommand.removeTarget(nil)
-      
-      commandCenter.dislikeCommand.isEnabled = false
-      commandCenter.dislikeCommand.removeTarget(nil)
-      
-      print("📱 Rating commands disabled")
+    }
+    
+    // Custom actions take the remaining feedback commands; extra actions are Android only
+    let actions = customActions.compactMap { action -> (id: String, title: String)? in
+      guard let id = action["id"] as? String else { return nil }
+      return (id: id, title: action["title"] as? String ?? id)
+    }
+    for (command, action) in zip(availableCommands, actions) {
+      command.localizedTitle = action.title
+      command.isEnabled = true
+      command.addTarget { [weak self] event in
+        self?.handleRemoteCommand(command: "custom", data: ["id": action.id])
+        return .success
+      }
     }
   }
 
@@ -712,6 +1221,20 @@ public class ExpoMediaControlModule: Module {
     commandCenter.previousTrackCommand.removeTarget(nil)
     commandCenter.previousTrackCommand.isEnabled = false
     
+    commandCenter.togglePlayPauseCommand.removeTarget(nil)
+    commandCenter.togglePlayPauseCommand.isEnabled = false
+    
+    commandCenter.changeShuffleModeCommand.removeTarget(nil)
+    commandCenter.changeShuffleModeCommand.isEnabled = false
+    commandCenter.changeShuffleModeCommand.currentShuffleType = .off
+    
+    commandCenter.changeRepeatModeCommand.removeTarget(nil)
+    commandCenter.changeRepeatModeCommand.isEnabled = false
+    commandCenter.changeRepeatModeCommand.currentRepeatType = .off
+    
+    commandCenter.changePlaybackRateCommand.removeTarget(nil)
+    commandCenter.changePlaybackRateCommand.isEnabled = false
+    
     commandCenter.skipForwardCommand.removeTarget(nil)
     commandCenter.skipForwardCommand.isEnabled = false
     
@@ -727,6 +1250,9 @@ public class ExpoMediaControlModule: Module {
     commandCenter.dislikeCommand.removeTarget(nil)
     commandCenter.dislikeCommand.isEnabled = false
     
+    commandCenter.bookmarkCommand.removeTarget(nil)
+    commandCenter.bookmarkCommand.isEnabled = false
+    
     print("📱 Remote command handlers unregistered")
   }
 
@@ -747,10 +1273,44 @@ public class ExpoMediaControlModule: Module {
     
     // Send event to JavaScript using proper Expo modules API
     DispatchQueue.main.async { [weak self] in
-      self?.sendEvent("mediaControlEvent", eventData)
+      guard let self = self else { return }
+      if !self.isObservingMediaControlEvents {
+        self.pendingMediaControlEvents.append(eventData)
+        self.trimPendingMediaControlEvents()
+        print("📱 iOS: Event kept until JavaScript listens: \(command)")
+        return
+      }
+      self.sendEvent("mediaControlEvent", eventData)
       print("📱 iOS: Event sent successfully: \(command)")
     }
   }
+
+  /**
+   * Drop the oldest kept events beyond maxPendingEvents, or all of them when buffering is off
+   * Main thread only.
+   */
+  private func trimPendingMediaControlEvents() {
+    if !pendingEventsEnabled {
+      pendingMediaControlEvents.removeAll()
+    }
+    if pendingMediaControlEvents.count > maxPendingEvents {
+      pendingMediaControlEvents.removeFirst(pendingMediaControlEvents.count - maxPendingEvents)
+    }
+  }
+
+  /**
+   * Send the media control events kept while JavaScript was not listening
+   * Events older than pendingEventTTL are dropped.
+   */
+  private func flushPendingMediaControlEvents() {
+    isObservingMediaControlEvents = true
+    let cutoff = Date().timeIntervalSince1970 * 1000 - pendingEventTTL
+    let events = pendingMediaControlEvents.filter { ($0["timestamp"] as? Double ?? 0) >= cutoff }
+    pendingMediaControlEvents.removeAll()
+    for event in events {
+      sendEvent("mediaControlEvent", event)
+    }
+  }
   
   // =============================================
   // UTILITY METHODS
@@ -770,76 +1330,75 @@ public class ExpoMediaControlModule: Module {
   }
 
   /**
-   * Load artwork from URI
-   * Handles both local and remote artwork loading with proper error handling
+   * Get supported playback rates from configuration
+   * Returns the configured rates or 0.5x to 2x in quarter steps
    */
-  private func loadArtwork(uri: String, completion: @escaping (MPMediaItemArtwork?) -> Void) async {
-    if uri.hasPrefix("http://") || uri.hasPrefix("https://") {
-      // Load remote image
-      await loadRemoteArtwork(uri: uri, completion: completion)
-    } else {
-      // Load local image
-      loadLocalArtwork(uri: uri, completion: completion)
+  private func getSupportedPlaybackRates() -> [NSNumber] {
+    if let rates = controlOptions["supportedPlaybackRates"] as? [Double], !rates.isEmpty {
+      return rates.map { NSNumber(value: $0) }
     }
+    return [0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0].map { NSNumber(value: $0) }
   }
 
   /**
-   * Load artwork from remote URL
-   * Downloads and caches remote artwork images
+   * Parse an ISO 8601 date (YYYY, YYYY-MM, YYYY-MM-DD or a full timestamp)
+   * Dates without a time zone are read as UTC
    */
-  private func loadRemoteArtwork(uri: String, completion: @escaping (MPMediaItemArtwork?) -> Void) async {
-    guard let url = URL(string: uri) else {
-      completion(nil)
-      return
+  private func parseISODate(_ value: String) -> Date? {
+    let timestampFormatter = ISO8601DateFormatter()
+    for options: ISO8601DateFormatter.Options in [[.withInternetDateTime, .withFractionalSeconds], [.withInternetDateTime]] {
+      timestampFormatter.formatOptions = options
+      if let date = timestampFormatter.date(from: value) {
+        return date
+      }
     }
     
-    do {
-      let (data, _) = try await URLSession.shared.data(from: url)
-      
-      if let image = UIImage(data: data) {
-        let artwork = MPMediaItemArtwork(boundsSize: image.size) { size in
-          return image
-        }
-        completion(artwork)
-      } else {
-        completion(nil)
+    let formatter = DateFormatter()
+    formatter.locale = Locale(identifier: "en_US_POSIX")
+    formatter.timeZone = TimeZone(secondsFromGMT: 0)
+    for format in ["yyyy-MM-dd'T'HH:mm:ss.SSS", "yyyy-MM-dd'T'HH:mm:ss", "yyyy-MM-dd'T'HH:mm", "yyyy-MM-dd", "yyyy-MM", "yyyy"] {
+      formatter.dateFormat = format
+      if let date = formatter.date(from: value) {
+        return date
       }
-    } catch {
-      print("❌ Failed to load remote artwork: \(error)")
-      completion(nil)
     }
+    return nil
   }
 
   /**
-   * Load artwork from local file
-   * Loads artwork from local file system or app bundle
+   * Load artwork from URI
+   * Images come from the artwork cache, which loads remote, data URI and local artwork
    */
-  private func loadLocalArtwork(uri: String, completion: @escaping (MPMediaItemArtwork?) -> Void) {
-    var imagePath = uri
-    
-    // Remove file:// prefix if present
-    if imagePath.hasPrefix("file://") {
-      imagePath = String(imagePath.dropFirst(7))
-    }
-    
-    var image: UIImage?
-    
-    // Try to load from file system
-    if FileManager.default.fileExists(atPath: imagePath) {
-      image = UIImage(contentsOfFile: imagePath)
-    } else {
-      // Try to load from app bundle
-      image = UIImage(named: imagePath)
-    }
-    
-    if let image = image {
-      let artwork = MPMediaItemArtwork(boundsSize: image.size) { size in
-        return image
-      }
-      completion(artwork)
-    } else {
-      print("❌ Failed to load local artwork: \(imagePath)")
+  private func loadArtwork(uri: String, completion: @escaping (MPMediaItemArtwork?) -> Void) async {
+    guard let image = await artworkCache.image(for: uri) else {
       completion(nil)
+      return
+    }
+    let artwork = MPMediaItemArtwork(boundsSize: image.size) { size in
+      return image
     }
+    completion(artwork)
+  }
+}
+
+/**
+ * Thrown by setVolume: iOS does not let apps change the system volume
+ */
+internal final class VolumeNotSettableException: Exception {
+  override var reason: String {
+    "iOS does not allow apps to set the system volume"
+  }
+}
+
+/**
+ * Thrown by prefetchArtwork when the image cannot be loaded
+ */
+internal final class ArtworkPrefetchException: GenericException<String> {
+  override var code: String {
+    "PREFETCH_ARTWORK_FAILED"
+  }
+
+  override var reason: String {
+    "Failed to prefetch artwork: could not load \(param)"
   }
 }
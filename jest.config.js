@@ -0,0 +1,37 @@
+const preset = require("expo-module-scripts/jest-preset");
+
+// The module only runs on iOS and Android (see "expo.platforms" in package.json)
+const PLATFORMS = ["iOS", "Android"];
+
+/**
+ * Keep type-checking our sources and tests, but not the TypeScript sources that
+ * expo packages ship in node_modules, which are written against other typings
+ */
+function withoutNodeModulesDiagnostics(transform) {
+  return Object.fromEntries(
+    Object.entries(transform).map(([pattern, transformer]) =>
+      Array.isArray(transformer) && transformer[0] === "ts-jest"
+        ? [
+            pattern,
+            [
+              "ts-jest",
+              {
+                ...transformer[1],
+                diagnostics: { exclude: ["**/node_modules/**"] },
+              },
+            ],
+          ]
+        : [pattern, transformer],
+    ),
+  );
+}
+
+module.exports = {
+  ...preset,
+  projects: preset.projects
+    .filter((project) => PLATFORMS.includes(project.displayName.name))
+    .map((project) => ({
+      ...project,
+      transform: withoutNodeModulesDiagnostics(project.transform),
+    })),
+};
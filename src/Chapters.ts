@@ -0,0 +1,425 @@
+import ExpoMediaControlModule, {
+  Command,
+  MediaChapter,
+  MediaControlMiddleware,
+  MediaMetadata,
+  MediaControlSnapshot,
+  MetadataPatch,
+  ValidationError,
+} from "./ExpoMediaControlModule";
+import { log } from "./logger";
+
+// =============================================
+// TYPE DEFINITIONS
+// =============================================
+
+/**
+ * Metadata field that shows the current chapter title
+ */
+export type ChapterDisplayField = "title" | "artist" | "album";
+
+/**
+ * Options for chapter mode
+ */
+export interface ChapterModeOptions {
+  /** Field showing the current chapter title (default: "artist", the subtitle line) */
+  displayField?: ChapterDisplayField;
+  /** Show a chapter's artwork while it plays (default: true) */
+  chapterArtwork?: boolean;
+  /** Seconds into a chapter after which previous restarts it instead of going back (default: 3) */
+  restartThreshold?: number;
+  /** Pass next/previous through as track changes before the first and after the last chapter (default: true) */
+  passThroughAtEnds?: boolean;
+  /** How often the position is checked for chapter boundaries, in ms (default: 1000) */
+  updateInterval?: number;
+}
+
+/**
+ * Contents of a cue sheet
+ */
+export interface CueSheet {
+  title?: string;
+  performer?: string;
+  /** Audio file the sheet describes */
+  file?: string;
+  chapters: MediaChapter[];
+}
+
+// =============================================
+// CHAPTER LOOKUP
+// =============================================
+
+/**
+ * Tolerance in seconds when comparing a position to a chapter start, so a seek
+ * that lands just before a boundary still counts as inside the new chapter
+ */
+const BOUNDARY_TOLERANCE = 0.25;
+
+const DEFAULT_RESTART_THRESHOLD = 3;
+
+const DEFAULT_UPDATE_INTERVAL = 1000;
+
+/**
+ * Copy of the chapters sorted by start time
+ */
+function sortChapters(chapters: MediaChapter[] | undefined): MediaChapter[] {
+  return [...(chapters ?? [])].sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Index of the last chapter starting at or before a position, or -1
+ */
+function findChapterIndex(chapters: MediaChapter[], position: number): number {
+  for (let index = chapters.length - 1; index >= 0; index--) {
+    if (chapters[index].startTime <= position + BOUNDARY_TOLERANCE) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Get the chapter playing at a position
+ * @param chapters Chapters in any order
+ * @param position Position in seconds
+ * @returns The chapter, or null before the first chapter or in a gap after a chapter's endTime
+ */
+export function getChapterAtPosition(
+  chapters: MediaChapter[],
+  position: number,
+): MediaChapter | null {
+  const sorted = sortChapters(chapters);
+  const chapter = sorted[findChapterIndex(sorted, position)];
+  if (!chapter) {
+    return null;
+  }
+  return chapter.endTime === undefined || position < chapter.endTime
+    ? chapter
+    : null;
+}
+
+// =============================================
+// CHAPTER MODE
+// =============================================
+
+/**
+ * Turn on chapter navigation for metadata that has chapters
+ *
+ * Next and previous remote commands are turned into seeks to chapter boundaries,
+ * so listeners (and `bindPlayer`) receive a `SEEK` event instead of a track change.
+ * While playing, the chapter title and artwork are shown as the position crosses
+ * a boundary, and the original values come back outside any chapter.
+ * Metadata without chapters is left alone.
+ * @param options Display and navigation settings
+ * @returns Function to turn chapter mode off and restore the original display
+ * @example
+ * ```typescript
+ * await MediaControl.updateMetadata({
+ *   title: 'The Hobbit',
+ *   artist: 'J.R.R. Tolkien',
+ *   chapters: [
+ *     { title: 'An Unexpected Party', startTime: 0 },
+ *     { title: 'Roast Mutton', startTime: 2710 },
+ *   ],
+ * });
+ * const disableChapterMode = enableChapterMode();
+ * ```
+ */
+export function enableChapterMode(
+  options: ChapterModeOptions = {},
+): () => void {
+  const {
+    displayField = "artist",
+    chapterArtwork = true,
+    restartThreshold = DEFAULT_RESTART_THRESHOLD,
+    passThroughAtEnds = true,
+    updateInterval = DEFAULT_UPDATE_INTERVAL,
+  } = options;
+
+  if (!["title", "artist", "album"].includes(displayField)) {
+    throw new ValidationError(
+      'displayField must be "title", "artist" or "album"',
+      "displayField",
+    );
+  }
+  if (
+    typeof restartThreshold !== "number" ||
+    !isFinite(restartThreshold) ||
+    restartThreshold < 0
+  ) {
+    throw new ValidationError(
+      "restartThreshold must be a non-negative number",
+      "restartThreshold",
+    );
+  }
+  if (
+    typeof updateInterval !== "number" ||
+    !isFinite(updateInterval) ||
+    updateInterval <= 0
+  ) {
+    throw new ValidationError(
+      "updateInterval must be a positive number",
+      "updateInterval",
+    );
+  }
+
+  // Metadata as set by the app, before any chapter was shown
+  let baseMetadata: MediaMetadata | null = null;
+  let chapters: MediaChapter[] = [];
+  // Metadata object last written by chapter mode, to tell it apart from app updates
+  let ownMetadata: MediaMetadata | null = null;
+  let shownChapter: MediaChapter | null = null;
+  let applying = false;
+
+  const getDisplayPatch = (chapter: MediaChapter | null): MetadataPatch => {
+    const base = baseMetadata ?? {};
+    const patch: MetadataPatch = {
+      [displayField]: chapter ? chapter.title : (base[displayField] ?? null),
+    };
+    if (chapterArtwork) {
+      patch.artwork = chapter?.artwork ?? base.artwork ?? null;
+    }
+    return patch;
+  };
+
+  const show = async (chapter: MediaChapter | null) => {
+    shownChapter = chapter;
+    applying = true;
+    try {
+      await ExpoMediaControlModule.patchMetadata(getDisplayPatch(chapter));
+    } catch (error) {
+      log.error("Failed to show chapter", {
+        operation: "enableChapterMode",
+        error,
+      });
+    } finally {
+      applying = false;
+      ownMetadata = ExpoMediaControlModule.getSnapshot().metadata;
+    }
+  };
+
+  const refresh = () => {
+    if (applying || chapters.length === 0) {
+      return;
+    }
+    const chapter = getChapterAtPosition(
+      chapters,
+      ExpoMediaControlModule.getEstimatedPosition(),
+    );
+    if (chapter !== shownChapter) {
+      show(chapter);
+    }
+  };
+
+  const onSnapshot = (snapshot: MediaControlSnapshot) => {
+    if (applying) {
+      return;
+    }
+    // New metadata from the app: start over from its values
+    if (snapshot.metadata !== ownMetadata) {
+      baseMetadata = snapshot.metadata;
+      ownMetadata = snapshot.metadata;
+      chapters = sortChapters(snapshot.metadata?.chapters);
+      shownChapter = null;
+    }
+    refresh();
+  };
+
+  const middleware: MediaControlMiddleware = (event, next) => {
+    if (
+      chapters.length === 0 ||
+      (event.command !== Command.NEXT_TRACK &&
+        event.command !== Command.PREVIOUS_TRACK)
+    ) {
+      next(event);
+      return;
+    }
+
+    const position = ExpoMediaControlModule.getEstimatedPosition();
+    const index = findChapterIndex(chapters, position);
+    let target: number | undefined;
+
+    if (event.command === Command.NEXT_TRACK) {
+      target = chapters[index + 1]?.startTime;
+    } else if (
+      index >= 0 &&
+      position - chapters[index].startTime > restartThreshold
+    ) {
+      target = chapters[index].startTime;
+    } else {
+      target = index > 0 ? chapters[index - 1].startTime : undefined;
+    }
+
+    if (target === undefined) {
+      if (passThroughAtEnds) {
+        next(event);
+      }
+      return;
+    }
+    next({
+      command: Command.SEEK,
+      data: { position: target },
+      timestamp: event.timestamp,
+    });
+  };
+
+  // eslint-disable-next-line react-hooks/rules-of-hooks -- middleware registration, not a React hook
+  const middlewareSubscription = ExpoMediaControlModule.use(middleware);
+  const snapshotSubscription =
+    ExpoMediaControlModule.addSnapshotListener(onSnapshot);
+  const progressSubscription = ExpoMediaControlModule.addProgressListener(
+    updateInterval,
+    refresh,
+  );
+  onSnapshot(ExpoMediaControlModule.getSnapshot());
+
+  // Return removal function, putting the app's own values back on display
+  return () => {
+    middlewareSubscription.remove();
+    snapshotSubscription.remove();
+    progressSubscription.remove();
+    if (shownChapter) {
+      show(null);
+    }
+  };
+}
+
+// =============================================
+// CUE SHEETS
+// =============================================
+
+/**
+ * Frames per second used by cue sheet timestamps (mm:ss:ff)
+ */
+const CUE_FRAMES_PER_SECOND = 75;
+
+/**
+ * Split a cue sheet line into its command and arguments, unquoting values
+ */
+function tokenizeCueLine(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2]);
+  }
+  return tokens;
+}
+
+/**
+ * Convert a cue sheet timestamp (mm:ss:ff) to seconds
+ */
+function parseCueTime(value: string, lineNumber: number): number {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})$/.exec(value);
+  if (!match) {
+    throw new ValidationError(
+      `Invalid cue sheet time "${value}" on line ${lineNumber}`,
+      "cueSheet",
+    );
+  }
+  const [, minutes, seconds, frames] = match.map(Number);
+  return minutes * 60 + seconds + frames / CUE_FRAMES_PER_SECOND;
+}
+
+/**
+ * Parse a `.cue` sheet describing a single audio file into chapters
+ *
+ * Each TRACK becomes a chapter starting at its INDEX 01 and ending where the
+ * next track starts. A track's PERFORMER is prefixed to its title when it differs
+ * from the sheet's, as in DJ mixes.
+ * @param text Contents of the cue sheet
+ * @returns Sheet title, performer, file and chapters
+ * @throws ValidationError when the sheet references several files or is malformed
+ * @example
+ * ```typescript
+ * const sheet = parseCueSheet(await (await fetch(cueUrl)).text());
+ * await MediaControl.updateMetadata({
+ *   title: sheet.title,
+ *   artist: sheet.performer,
+ *   chapters: sheet.chapters,
+ * });
+ * ```
+ */
+export function parseCueSheet(text: string): CueSheet {
+  if (typeof text !== "string") {
+    throw new ValidationError("Cue sheet must be a string", "cueSheet");
+  }
+
+  const sheet: CueSheet = { chapters: [] };
+  const tracks: {
+    number: string;
+    title?: string;
+    performer?: string;
+    start?: number;
+  }[] = [];
+  let fileCount = 0;
+
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .forEach((line, lineIndex) => {
+      const [command, ...args] = tokenizeCueLine(line.trim());
+      const track = tracks[tracks.length - 1];
+
+      switch (command?.toUpperCase()) {
+        case "FILE":
+          fileCount += 1;
+          if (fileCount > 1) {
+            throw new ValidationError(
+              "Only cue sheets describing a single file are supported",
+              "cueSheet",
+            );
+          }
+          sheet.file = args[0];
+          break;
+        case "TRACK":
+          tracks.push({ number: args[0] ?? String(tracks.length + 1) });
+          break;
+        case "TITLE":
+          if (track) {
+            track.title = args[0];
+          } else {
+            sheet.title = args[0];
+          }
+          break;
+        case "PERFORMER":
+          if (track) {
+            track.performer = args[0];
+          } else {
+            sheet.performer = args[0];
+          }
+          break;
+        case "INDEX":
+          // INDEX 00 is the pregap; the track itself starts at INDEX 01
+          if (track && args[0] === "01") {
+            track.start = parseCueTime(args[1] ?? "", lineIndex + 1);
+          }
+          break;
+        default:
+          // REM, CATALOG, FLAGS, ISRC and other commands carry nothing we show
+          break;
+      }
+    });
+
+  const timedTracks = tracks.filter(
+    (track): track is (typeof tracks)[number] & { start: number } =>
+      track.start !== undefined,
+  );
+  sheet.chapters = timedTracks.map((track, index) => {
+    const title = track.title ?? `Track ${track.number}`;
+    const chapter: MediaChapter = {
+      title:
+        track.performer && track.performer !== sheet.performer
+          ? `${track.performer} - ${title}`
+          : title,
+      startTime: track.start,
+    };
+    const next = timedTracks[index + 1];
+    if (next && next.start > track.start) {
+      chapter.endTime = next.start;
+    }
+    return chapter;
+  });
+
+  return sheet;
+}
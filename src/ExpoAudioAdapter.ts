@@ -0,0 +1,100 @@
+import { PlayerAdapter, PlayerStatus } from "./PlayerAdapter";
+
+// =============================================
+// TYPE DEFINITIONS
+// =============================================
+
+/**
+ * The parts of expo-audio's `AudioStatus` the adapter reads
+ * Declared structurally so expo-audio stays an optional peer of this module
+ */
+export interface ExpoAudioStatus {
+  currentTime: number;
+  duration: number;
+  playing: boolean;
+  isBuffering: boolean;
+  isLoaded: boolean;
+  playbackRate: number;
+  didJustFinish: boolean;
+}
+
+/**
+ * The parts of expo-audio's `AudioPlayer` the adapter drives
+ * Pass the result of `createAudioPlayer()` or `useAudioPlayer()`
+ */
+export interface ExpoAudioPlayer {
+  readonly currentTime: number;
+  readonly duration: number;
+  readonly playing: boolean;
+  readonly isBuffering: boolean;
+  readonly isLoaded: boolean;
+  playbackRate: number;
+  play(): void;
+  pause(): void;
+  seekTo(seconds: number): Promise<void>;
+  setPlaybackRate(rate: number): void;
+  addListener(
+    eventName: "playbackStatusUpdate",
+    listener: (status: ExpoAudioStatus) => void,
+  ): { remove(): void };
+}
+
+// =============================================
+// ADAPTER
+// =============================================
+
+/**
+ * Convert an expo-audio status to a player status
+ * A duration of 0 means expo-audio has not loaded it yet
+ */
+function toPlayerStatus(status: ExpoAudioStatus): PlayerStatus {
+  return {
+    playing: status.playing,
+    buffering: status.isBuffering || (status.playing && !status.isLoaded),
+    position: status.currentTime,
+    duration: status.duration > 0 ? status.duration : undefined,
+    rate: status.playbackRate,
+    ended: status.didJustFinish,
+  };
+}
+
+/**
+ * Create a player adapter for an expo-audio `AudioPlayer`
+ * @param player The expo-audio player to control
+ * @returns Adapter to pass to bindPlayer
+ * @example
+ * ```typescript
+ * const player = useAudioPlayer(source);
+ *
+ * useEffect(() => bindPlayer(createExpoAudioAdapter(player)), [player]);
+ * ```
+ */
+export function createExpoAudioAdapter(player: ExpoAudioPlayer): PlayerAdapter {
+  return {
+    play: () => player.play(),
+    pause: () => player.pause(),
+    seekTo: (position) => player.seekTo(position),
+    setRate: (rate) => player.setPlaybackRate(rate),
+    stop: async () => {
+      player.pause();
+      await player.seekTo(0);
+    },
+    getStatus: () =>
+      toPlayerStatus({
+        currentTime: player.currentTime,
+        duration: player.duration,
+        playing: player.playing,
+        isBuffering: player.isBuffering,
+        isLoaded: player.isLoaded,
+        playbackRate: player.playbackRate,
+        didJustFinish: false,
+      }),
+    onStatusChange: (listener) => {
+      const subscription = player.addListener(
+        "playbackStatusUpdate",
+        (status) => listener(toPlayerStatus(status)),
+      );
+      return () => subscription.remove();
+    },
+  };
+}
@@ -1,484 +1,709 @@
-import { NativeModule, requireNativeModule } from "expo";
+import { requireNativeModule } from "expo";
+
+import {
+  activateQueueItem,
+  clearQueueItems,
+  getActiveQueueItem,
+  getQueueTransitionIndex,
+  insertQueueItems,
+  isQueueTransition,
+  moveQueueItemTo,
+  queueState,
+  removeQueueItem,
+  resetQueue,
+  _resetQueueForTesting,
+  serializeQueueOperation,
+  setQueueItems,
+  toNativeQueueItem,
+} from "./Queue";
+import {
+  checkStateTransition,
+  DEFAULT_STATE_MACHINE_OPTIONS,
+  estimatePosition,
+  getDefaultPlaybackRate,
+  stateMachineOptions,
+} from "./StateMachine";
+import {
+  MediaControlError,
+  NativeError,
+  NotEnabledError,
+  ValidationError,
+  ValidationIssue,
+} from "./errors";
+import {
+  consoleLogger,
+  LOG_LEVEL_PRIORITY,
+  log,
+  LogLevel,
+  loggerState,
+  MediaControlLogger,
+} from "./logger";
+import {
+  ArtworkCacheStats,
+  ArtworkSource,
+  Command,
+  CommandListener,
+  CustomAction,
+  EnableGuardOptions,
+  EventBufferOptions,
+  EventSubscription,
+  ExpoMediaControlNativeModule,
+  FeedbackState,
+  ListenerType,
+  MediaControlEvent,
+  MediaControlEventListener,
+  MediaControlEventNext,
+  MediaControlMiddleware,
+  MediaControlOptions,
+  MediaControlSnapshot,
+  MediaMetadata,
+  MediaRating,
+  MetadataPatch,
+  NativeEventSubscription,
+  PlaybackState,
+  ProgressListener,
+  QueueItem,
+  RatingType,
+  RepeatMode,
+  ShuffleMode,
+  SnapshotListener,
+  StateChangeEvent,
+  StateChangeListener,
+  StateMachineOptions,
+  ValidationOptions,
+  VolumeChange,
+  VolumeChangeListener,
+  VolumeState,
+} from "./types";
+import {
+  checkMediaControlOptions,
+  checkMetadata,
+  collectArtworkIssues,
+  collectMediaControlOptionsIssues,
+  collectMetadataIssues,
+  createValidationError,
+  MAX_PLAYBACK_RATE,
+  RATING_MAX_VALUES,
+  REPEAT_MODES,
+  resolveArtworkSource,
+  SHUFFLE_MODES,
+  validatePlaybackRate,
+  validatePlaybackState,
+  validatePosition,
+  validationOptions,
+} from "./validation";
+
+export * from "./errors";
+export * from "./types";
+export {
+  COLOR_PATTERN,
+  DATE_PATTERN,
+  isBooleanRatingType,
+  MAX_PLAYBACK_RATE,
+  MAX_SKIP_INTERVAL,
+  MEDIA_TYPES,
+  NON_COMPACT_COMMANDS,
+  RATING_MAX_VALUES,
+  REPEAT_MODES,
+  SHUFFLE_MODES,
+} from "./validation";
+export { estimatePosition, isValidStateTransition } from "./StateMachine";
 
 // =============================================
-// CUSTOM ERROR TYPES
+// EVENT NORMALIZATION
 // =============================================
 
 /**
- * Base error class for media control errors
+ * Skip interval reported when the platform does not include one
  */
-export class MediaControlError extends Error {
-  constructor(
-    message: string,
-    public readonly code?: string,
-    public readonly cause?: Error,
-  ) {
-    super(message);
-    this.name = "MediaControlError";
-  }
-}
+const DEFAULT_SKIP_INTERVAL = 15;
 
 /**
- * Error thrown when validation fails
+ * Convert a rating payload from either platform into a MediaRating
+ * Android and iOS send `{ type, rating }`; a full `{ type, value }` is accepted as well
  */
-export class ValidationError extends MediaControlError {
-  constructor(
-    message: string,
-    public readonly field?: string,
-  ) {
-    super(message, "VALIDATION_ERROR");
-    this.name = "ValidationError";
+function normalizeRating(data: any): MediaRating | null {
+  if (!data || typeof data !== "object") {
+    return null;
   }
-}
 
-/**
- * Error thrown when native module operations fail
- */
-export class NativeError extends MediaControlError {
-  constructor(message: string, code?: string, cause?: Error) {
-    super(message, code, cause);
-    this.name = "NativeError";
+  const source =
+    data.rating && typeof data.rating === "object" ? data.rating : data;
+  const type = source.type as RatingType;
+  if (!Object.values(RatingType).includes(type)) {
+    return null;
   }
-}
 
-/**
- * Error thrown when media controls are not enabled
- */
-export class NotEnabledError extends MediaControlError {
-  constructor(message: string = "Media controls are not enabled") {
-    super(message, "NOT_ENABLED");
-    this.name = "NotEnabledError";
+  const rawValue = source.value !== undefined ? source.value : source.rating;
+  const isBinary =
+    type === RatingType.HEART || type === RatingType.THUMBS_UP_DOWN;
+  let value: boolean | number;
+  if (isBinary) {
+    value = typeof rawValue === "number" ? rawValue > 0 : Boolean(rawValue);
+  } else if (typeof rawValue === "number" && isFinite(rawValue)) {
+    value = rawValue;
+  } else {
+    return null;
   }
-}
 
-// =============================================
-// VALIDATION UTILITIES
-// =============================================
+  return { type, value, maxValue: RATING_MAX_VALUES[type] };
+}
 
 /**
- * Validates media metadata input
+ * Convert a raw native event into a typed MediaControlEvent
+ * Both platforms deliver slightly different payload shapes (iOS sends `{}` for
+ * commands without data, Android sends `null`); this makes them identical.
+ * Returns null for events that cannot be represented.
  */
-function validateMetadata(metadata: any): asserts metadata is MediaMetadata {
-  if (!metadata || typeof metadata !== "object") {
-    throw new ValidationError("Metadata must be an object", "metadata");
+function normalizeMediaControlEvent(raw: any): MediaControlEvent | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
   }
 
-  // Validate optional string fields
-  const stringFields = ["title", "artist", "album", "genre", "date"];
-  for (const field of stringFields) {
-    if (metadata[field] !== undefined && typeof metadata[field] !== "string") {
-      throw new ValidationError(`${field} must be a string`, field);
+  const command = raw.command as Command;
+  const data = raw.data && typeof raw.data === "object" ? raw.data : {};
+  const timestamp =
+    typeof raw.timestamp === "number" && isFinite(raw.timestamp)
+      ? raw.timestamp
+      : Date.now();
+
+  switch (command) {
+    case Command.SEEK: {
+      const position = Number(data.position);
+      if (!isFinite(position)) {
+        return null;
+      }
+      return {
+        command,
+        data: { position: Math.max(0, position) },
+        timestamp,
+      };
     }
-  }
 
-  // Validate optional number fields
-  const numberFields = [
-    "duration",
-    "elapsedTime",
-    "trackNumber",
-    "albumTrackCount",
-  ];
-  for (const field of numberFields) {
-    if (metadata[field] !== undefined && typeof metadata[field] !== "number") {
-      throw new ValidationError(`${field} must be a number`, field);
+    case Command.SKIP_FORWARD:
+    case Command.SKIP_BACKWARD: {
+      const interval = Number(data.interval);
+      return {
+        command,
+        data: {
+          interval:
+            isFinite(interval) && interval > 0
+              ? interval
+              : DEFAULT_SKIP_INTERVAL,
+        },
+        timestamp,
+      };
     }
-    if (metadata[field] !== undefined && metadata[field] < 0) {
-      throw new ValidationError(`${field} must be non-negative`, field);
-    }
-  }
 
-  // Validate artwork
-  if (metadata.artwork !== undefined) {
-    if (!metadata.artwork || typeof metadata.artwork !== "object") {
-      throw new ValidationError("artwork must be an object", "artwork");
+    case Command.SET_RATING: {
+      const rating = normalizeRating(data);
+      if (!rating) {
+        return null;
+      }
+      return { command, data: { rating }, timestamp };
     }
-    if (
-      typeof metadata.artwork.uri !== "string" ||
-      metadata.artwork.uri.length === 0
-    ) {
-      throw new ValidationError(
-        "artwork.uri must be a non-empty string",
-        "artwork.uri",
-      );
+
+    case Command.SKIP_TO_QUEUE_ITEM: {
+      if (typeof data.id !== "string" || data.id.length === 0) {
+        return null;
+      }
+      return {
+        command,
+        data: { id: data.id, currentItem: null, targetItem: null },
+        timestamp,
+      };
     }
-    if (
-      metadata.artwork.width !== undefined &&
-      typeof metadata.artwork.width !== "number"
-    ) {
-      throw new ValidationError(
-        "artwork.width must be a number",
-        "artwork.width",
-      );
+
+    case Command.CUSTOM: {
+      if (typeof data.id !== "string" || data.id.length === 0) {
+        return null;
+      }
+      return { command, data: { id: data.id }, timestamp };
     }
-    if (
-      metadata.artwork.height !== undefined &&
-      typeof metadata.artwork.height !== "number"
-    ) {
-      throw new ValidationError(
-        "artwork.height must be a number",
-        "artwork.height",
-      );
+
+    case Command.SET_SHUFFLE_MODE: {
+      if (!SHUFFLE_MODES.includes(data.mode)) {
+        return null;
+      }
+      return { command, data: { mode: data.mode }, timestamp };
     }
-  }
 
-  // Validate rating
-  if (metadata.rating !== undefined) {
-    if (!metadata.rating || typeof metadata.rating !== "object") {
-      throw new ValidationError("rating must be an object", "rating");
+    case Command.SET_REPEAT_MODE: {
+      if (!REPEAT_MODES.includes(data.mode)) {
+        return null;
+      }
+      return { command, data: { mode: data.mode }, timestamp };
     }
-    if (!Object.values(RatingType).includes(metadata.rating.type)) {
-      throw new ValidationError(
-        "rating.type must be a valid RatingType",
-        "rating.type",
-      );
+
+    case Command.CHANGE_PLAYBACK_RATE: {
+      const rate = Number(data.rate);
+      if (!isFinite(rate) || rate < 0 || rate > MAX_PLAYBACK_RATE) {
+        return null;
+      }
+      return { command, data: { rate }, timestamp };
     }
-    if (
-      typeof metadata.rating.value !== "boolean" &&
-      typeof metadata.rating.value !== "number"
-    ) {
-      throw new ValidationError(
-        "rating.value must be a boolean or number",
-        "rating.value",
-      );
+
+    case Command.LIKE:
+    case Command.DISLIKE:
+    case Command.BOOKMARK: {
+      if (typeof data.isActive !== "boolean") {
+        return null;
+      }
+      return { command, data: { isActive: data.isActive }, timestamp };
     }
+
+    case Command.PLAY:
+    case Command.PAUSE:
+    case Command.STOP:
+    case Command.NEXT_TRACK:
+    case Command.PREVIOUS_TRACK:
+    case Command.VOLUME_UP:
+    case Command.VOLUME_DOWN:
+    case Command.TOGGLE_PLAY_PAUSE:
+      return { command, data: undefined, timestamp };
+
+    default:
+      return null;
   }
 }
 
 /**
- * Validates playback state input
+ * Normalize a raw native volume event
+ * Fields missing from older native builds fall back to safe defaults
  */
-function validatePlaybackState(state: any): asserts state is PlaybackState {
-  if (typeof state !== "number") {
-    throw new ValidationError("Playback state must be a number", "state");
+function normalizeVolumeChange(raw: any): VolumeChange | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const volume = Number(raw.volume);
+  if (!isFinite(volume)) {
+    return null;
   }
-  if (!Object.values(PlaybackState).includes(state)) {
-    throw new ValidationError("Invalid playback state value", "state");
+
+  const change: VolumeChange = {
+    volume: Math.min(1, Math.max(0, volume)),
+    muted: typeof raw.muted === "boolean" ? raw.muted : volume <= 0,
+    streamType: raw.streamType === "music" ? "music" : "output",
+    userInitiated:
+      typeof raw.userInitiated === "boolean" ? raw.userInitiated : true,
+  };
+  const maxSteps = Number(raw.maxSteps);
+  if (Number.isInteger(maxSteps) && maxSteps > 0) {
+    change.maxSteps = maxSteps;
   }
+  return change;
 }
 
+// =============================================
+// MODULE IMPLEMENTATION
+// =============================================
+
 /**
- * Validates position input
+ * Native module instance, resolved on first use
+ * Resolving lazily keeps the package importable where no native runtime exists (Jest, Node)
  */
-function validatePosition(position: any): asserts position is number {
-  if (typeof position !== "number") {
-    throw new ValidationError("Position must be a number", "position");
-  }
-  if (position < 0) {
-    throw new ValidationError("Position must be non-negative", "position");
-  }
-  if (!isFinite(position)) {
-    throw new ValidationError("Position must be finite", "position");
-  }
-}
+let nativeModule: ExpoMediaControlNativeModule | null = null;
 
 /**
- * Validates playback rate input
+ * Get the native module instance, loading it on first use
  */
-function validatePlaybackRate(rate: any): asserts rate is number {
-  if (typeof rate !== "number") {
-    throw new ValidationError("Playback rate must be a number", "playbackRate");
-  }
-  if (rate < 0) {
-    throw new ValidationError(
-      "Playback rate must be non-negative",
-      "playbackRate",
-    );
-  }
-  if (rate > 10) {
-    throw new ValidationError(
-      "Playback rate must not exceed 10",
-      "playbackRate",
-    );
-  }
-  if (!isFinite(rate)) {
-    throw new ValidationError("Playback rate must be finite", "playbackRate");
+function getNativeModule(): ExpoMediaControlNativeModule {
+  if (!nativeModule) {
+    nativeModule =
+      requireNativeModule<ExpoMediaControlNativeModule>("ExpoMediaControl");
+    log.debug("Native module loaded");
   }
+  return nativeModule;
 }
 
 /**
- * Validates media control options
+ * Map to store event listeners for manual management
  */
-function validateMediaControlOptions(
-  options: any,
-): asserts options is MediaControlOptions {
-  if (!options || typeof options !== "object") {
-    throw new ValidationError("Options must be an object", "options");
-  }
-
-  if (options.capabilities !== undefined) {
-    if (!Array.isArray(options.capabilities)) {
-      throw new ValidationError(
-        "capabilities must be an array",
-        "capabilities",
-      );
-    }
-    for (const capability of options.capabilities) {
-      if (!Object.values(Command).includes(capability)) {
-        throw new ValidationError(
-          `Invalid capability: ${capability}`,
-          "capabilities",
-        );
-      }
-    }
-  }
-
-  if (options.compactCapabilities !== undefined) {
-    if (!Array.isArray(options.compactCapabilities)) {
-      throw new ValidationError(
-        "compactCapabilities must be an array",
-        "compactCapabilities",
-      );
-    }
-    if (options.compactCapabilities.length > 3) {
-      throw new ValidationError(
-        "compactCapabilities can have at most 3 items",
-        "compactCapabilities",
-      );
-    }
-    for (const capability of options.compactCapabilities) {
-      if (!Object.values(Command).includes(capability)) {
-        throw new ValidationError(
-          `Invalid compact capability: ${capability}`,
-          "compactCapabilities",
-        );
-      }
-    }
-  }
+const eventListeners: {
+  mediaControl: MediaControlListenerEntry[];
+  volumeChange: VolumeChangeListener[];
+  stateChange: StateChangeListener[];
+  snapshot: SnapshotListener[];
+} = {
+  mediaControl: [],
+  volumeChange: [],
+  stateChange: [],
+  snapshot: [],
+};
 
-  if (options.notification !== undefined) {
-    if (typeof options.notification !== "object") {
-      throw new ValidationError(
-        "notification must be an object",
-        "notification",
-      );
-    }
-  }
+/**
+ * Default pending-event buffer settings
+ */
+const DEFAULT_EVENT_BUFFER_OPTIONS: Required<EventBufferOptions> = {
+  enabled: true,
+  maxSize: 10,
+  ttl: 5000,
+};
 
-  if (options.ios !== undefined) {
-    if (typeof options.ios !== "object") {
-      throw new ValidationError("ios must be an object", "ios");
-    }
-  }
+/**
+ * Media control events delivered while no listener could receive them
+ * Replayed to the first matching listener, e.g. for presses that cold-start the app
+ */
+const eventBuffer: {
+  options: Required<EventBufferOptions>;
+  events: { event: MediaControlEvent; receivedAt: number }[];
+} = {
+  options: { ...DEFAULT_EVENT_BUFFER_OPTIONS },
+  events: [],
+};
 
-  if (options.android !== undefined) {
-    if (typeof options.android !== "object") {
-      throw new ValidationError("android must be an object", "android");
-    }
-  }
+/**
+ * Drop buffered events older than the configured TTL
+ */
+function pruneEventBuffer(): void {
+  const cutoff = Date.now() - eventBuffer.options.ttl;
+  eventBuffer.events = eventBuffer.events.filter(
+    ({ receivedAt }) => receivedAt > cutoff,
+  );
 }
 
-// =============================================
-// TYPE DEFINITIONS
-// =============================================
+/**
+ * Media control listeners, with the command they are limited to when added via `on`
+ */
+type MediaControlListenerEntry = {
+  listener: MediaControlEventListener;
+  command?: Command;
+};
 
 /**
- * Represents the current state of media playback
+ * Middleware chain run on media control events, in registration order
  */
-export enum PlaybackState {
-  NONE = 0,
-  STOPPED = 1,
-  PLAYING = 2,
-  PAUSED = 3,
-  BUFFERING = 4,
-  ERROR = 5,
-}
+const middlewares: MediaControlMiddleware[] = [];
 
 /**
- * Represents different types of media control commands
- */
-export enum Command {
-  PLAY = "play",
-  PAUSE = "pause",
-  STOP = "stop",
-  NEXT_TRACK = "nextTrack",
-  PREVIOUS_TRACK = "previousTrack",
-  SKIP_FORWARD = "skipForward",
-  SKIP_BACKWARD = "skipBackward",
-  SEEK = "seek",
-  SET_RATING = "setRating",
-  VOLUME_UP = "volumeUp",
-  VOLUME_DOWN = "volumeDown",
-}
+ * Command whose button shows each feedback field
+ */
+const FEEDBACK_COMMANDS: Record<keyof FeedbackState, Command> = {
+  liked: Command.LIKE,
+  disliked: Command.DISLIKE,
+  bookmarked: Command.BOOKMARK,
+};
 
 /**
- * Rating types for media content
+ * Feedback state with nothing liked, disliked or bookmarked
  */
-export enum RatingType {
-  HEART = "heart",
-  THUMBS_UP_DOWN = "thumbsUpDown",
-  THREE_STARS = "threeStars",
-  FOUR_STARS = "fourStars",
-  FIVE_STARS = "fiveStars",
-  PERCENTAGE = "percentage",
-}
+const NO_FEEDBACK: FeedbackState = {
+  liked: false,
+  disliked: false,
+  bookmarked: false,
+};
+
+const INITIAL_SNAPSHOT: MediaControlSnapshot = {
+  isEnabled: false,
+  metadata: null,
+  state: PlaybackState.NONE,
+  position: 0,
+  playbackRate: 0,
+  positionUpdatedAt: 0,
+  shuffleMode: "off",
+  repeatMode: "off",
+  feedback: NO_FEEDBACK,
+};
 
 /**
- * Represents artwork/album cover information
+ * Default drift (in seconds) tolerated by syncPlaybackPosition before pushing to native
  */
-export interface MediaArtwork {
-  uri: string;
-  width?: number;
-  height?: number;
-}
+const DEFAULT_DRIFT_THRESHOLD = 1;
 
 /**
- * Represents rating information for media content
+ * Delivery of the last media control event waiting on a queue transition
  */
-export interface MediaRating {
-  type: RatingType;
-  value: boolean | number;
-  maxValue?: number;
-}
+let pendingQueueDelivery: Promise<void> | null = null;
 
 /**
- * Complete media metadata information
- */
-export interface MediaMetadata {
-  title?: string;
-  artist?: string;
-  album?: string;
-  artwork?: MediaArtwork;
-  duration?: number;
-  elapsedTime?: number;
-  genre?: string;
-  trackNumber?: number;
-  albumTrackCount?: number;
-  date?: string;
-  rating?: MediaRating;
-  color?: string;
-  colorized?: boolean;
-  isLiveStream?: boolean;
-}
+ * Metadata fields kept in JS only and never sent to native
+ */
+const JS_ONLY_METADATA_FIELDS: string[] = ["chapters"];
 
 /**
- * Configuration options for media controls
- *
- * Note: Audio focus management should be handled by your media player,
- * not by this control module.
+ * Remove the JS-only fields from metadata or a metadata patch
  */
-export interface MediaControlOptions {
-  capabilities?: Command[];
-  compactCapabilities?: Command[];
-  notification?: {
-    icon?: string;
-    largeIcon?: MediaArtwork;
-    color?: string;
-    showWhenClosed?: boolean;
-  };
-  ios?: {
-    skipInterval?: number;
-  };
-  android?: {
-    skipInterval?: number;
-  };
+function toNativeMetadata<T extends MediaMetadata | MetadataPatch>(
+  metadata: T,
+): T {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(
+      ([key]) => !JS_ONLY_METADATA_FIELDS.includes(key),
+    ),
+  ) as T;
 }
 
 /**
- * Media control event data
+ * Structural equality for metadata values
+ * Metadata only holds primitives and plain objects (artwork, rating)
  */
-export interface MediaControlEvent {
-  command: Command;
-  data?: any;
-  timestamp: number;
+function isEqualMetadataValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    !a ||
+    !b ||
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!isEqualMetadataValue(aRecord[key], bRecord[key])) {
+      return false;
+    }
+  }
+  return true;
 }
 
 /**
- * Volume change information
+ * Compute the fields of a patch that differ from the current metadata
+ * Returns only changed fields, with null for fields that should be cleared
  */
-export interface VolumeChange {
-  volume: number;
-  userInitiated: boolean;
+function diffMetadata(
+  current: MediaMetadata,
+  patch: MetadataPatch,
+): MetadataPatch {
+  const changes: Record<string, unknown> = {};
+  const currentRecord = current as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      if (currentRecord[key] !== undefined) {
+        changes[key] = null;
+      }
+    } else if (!isEqualMetadataValue(currentRecord[key], value)) {
+      changes[key] = value;
+    }
+  }
+
+  return changes as MetadataPatch;
 }
 
-// Event listener types
-export type MediaControlEventListener = (event: MediaControlEvent) => void;
-export type VolumeChangeListener = (change: VolumeChange) => void;
+/**
+ * Error code and description of the NativeError thrown when a native operation fails
+ */
+const NATIVE_OPERATION_FAILURES = {
+  enableMediaControls: {
+    code: "ENABLE_FAILED",
+    description: "enable media controls",
+  },
+  disableMediaControls: {
+    code: "DISABLE_FAILED",
+    description: "disable media controls",
+  },
+  updateMetadata: {
+    code: "UPDATE_METADATA_FAILED",
+    description: "update metadata",
+  },
+  patchMetadata: {
+    code: "UPDATE_METADATA_FAILED",
+    description: "patch metadata",
+  },
+  updatePlaybackState: {
+    code: "UPDATE_STATE_FAILED",
+    description: "update playback state",
+  },
+  resetControls: {
+    code: "RESET_FAILED",
+    description: "reset controls",
+  },
+  getVolume: {
+    code: "GET_VOLUME_FAILED",
+    description: "get volume",
+  },
+  setVolume: {
+    code: "SET_VOLUME_FAILED",
+    description: "set volume",
+  },
+  updateCustomActions: {
+    code: "UPDATE_CUSTOM_ACTIONS_FAILED",
+    description: "update custom actions",
+  },
+  setShuffleMode: {
+    code: "SET_SHUFFLE_MODE_FAILED",
+    description: "set shuffle mode",
+  },
+  setRepeatMode: {
+    code: "SET_REPEAT_MODE_FAILED",
+    description: "set repeat mode",
+  },
+  setFeedbackState: {
+    code: "SET_FEEDBACK_STATE_FAILED",
+    description: "set feedback state",
+  },
+  prefetchArtwork: {
+    code: "PREFETCH_ARTWORK_FAILED",
+    description: "prefetch artwork",
+  },
+  clearArtworkCache: {
+    code: "CLEAR_ARTWORK_CACHE_FAILED",
+    description: "clear artwork cache",
+  },
+  getArtworkCacheStats: {
+    code: "GET_ARTWORK_CACHE_STATS_FAILED",
+    description: "get artwork cache stats",
+  },
+  _syncQueue: { code: "UPDATE_QUEUE_FAILED", description: "update queue" },
+} as const;
 
-// =============================================
-// NATIVE MODULE INTERFACE
-// =============================================
+/**
+ * Operations run through _callNative
+ */
+type NativeOperation = keyof typeof NATIVE_OPERATION_FAILURES;
 
 /**
- * Native module interface for Expo Media Control
- * This interface defines all the methods that the native iOS and Android modules must implement
+ * Live subscriptions per listener type, so removeAllListeners can scope by type
  */
-declare class ExpoMediaControlNativeModule extends NativeModule {
-  /**
-   * Enable media controls with specified configuration
-   * Initializes the media session and sets up remote control handlers
-   */
-  enableMediaControls(options?: MediaControlOptions): Promise<void>;
+const activeSubscriptions: Record<ListenerType, Set<EventSubscription>> = {
+  mediaControl: new Set(),
+  volumeChange: new Set(),
+  stateChange: new Set(),
+  progress: new Set(),
+  snapshot: new Set(),
+};
 
-  /**
-   * Disable media controls and clean up all resources
-   * Stops the media session and removes all handlers
-   */
-  disableMediaControls(): Promise<void>;
+/**
+ * Create a subscription that runs remove exactly once
+ */
+function createRemovableSubscription(remove: () => void): EventSubscription {
+  let removed = false;
+  const subscription = (() => {
+    if (removed) {
+      return;
+    }
+    removed = true;
+    remove();
+  }) as EventSubscription;
+  subscription.remove = () => subscription();
+  return subscription;
+}
 
-  /**
-   * Update the media metadata displayed in system controls
-   * Updates notification, lock screen, and control center information
-   */
-  updateMetadata(metadata: MediaMetadata): Promise<void>;
+/**
+ * Create a tracked subscription that runs remove exactly once
+ */
+function createSubscription(
+  type: ListenerType,
+  remove: () => void,
+): EventSubscription {
+  const subscription = createRemovableSubscription(() => {
+    activeSubscriptions[type].delete(subscription);
+    remove();
+  });
+
+  activeSubscriptions[type].add(subscription);
+  return subscription;
+}
 
-  /**
-   * Update the current playback state and position
-   * Updates the system about current playback status
-   * @param state - The playback state
-   * @param position - The current position in seconds (optional)
-   * @param playbackRate - The playback rate/speed (optional, defaults to 1.0 when playing, 0.0 when paused)
-   */
-  updatePlaybackState(
-    state: PlaybackState,
-    position?: number,
-    playbackRate?: number,
-  ): Promise<void>;
+/**
+ * Events emitted by the native module
+ */
+type NativeEventName = "mediaControlEvent" | "volumeChange";
 
-  /**
-   * Reset all media control information to default state
-   * Clears all metadata and resets playback state
-   */
-  resetControls(): Promise<void>;
+/**
+ * Native subscriptions shared by every JS listener of an event
+ * A native listener is added for the first reference and removed with the last one
+ */
+const nativeSubscriptions = new Map<
+  NativeEventName,
+  { subscription: NativeEventSubscription; refCount: number }
+>();
 
-  /**
-   * Check if media controls are currently enabled
-   * Returns whether the media session is active
-   */
-  isEnabled(): Promise<boolean>;
+/**
+ * Reference to the media control event subscription held while controls are enabled
+ * Keeps events flowing into the pending-event buffer before any listener exists
+ */
+let sessionSubscription: (() => void) | null = null;
 
-  /**
-   * Get the current media metadata
-   * Returns the currently set metadata information
-   */
-  getCurrentMetadata(): Promise<MediaMetadata | null>;
+/**
+ * Options media controls were last enabled with, kept up to date by updateCustomActions
+ */
+let controlOptions: MediaControlOptions | null = null;
 
-  /**
-   * Get the current playback state
-   * Returns the current playback status
-   */
-  getCurrentState(): Promise<PlaybackState>;
+/**
+ * Warn when a mode is published for a command missing from the capabilities
+ * The system then shows the toggle as unavailable
+ */
+function warnIfCapabilityMissing(command: Command, operation: string): void {
+  if (!controlOptions?.capabilities?.includes(command)) {
+    log.warn(
+      `"${command}" is not in capabilities, so the system shows it as unavailable`,
+      { operation },
+    );
+  }
 }
 
-// =============================================
-// MODULE IMPLEMENTATION
-// =============================================
+/**
+ * Default enabled-state guard settings
+ */
+const DEFAULT_ENABLE_GUARD_OPTIONS: EnableGuardOptions = {
+  behavior: "throw",
+};
 
-// Create the native module instance
-const nativeModule =
-  requireNativeModule<ExpoMediaControlNativeModule>("ExpoMediaControl");
+/**
+ * Current enabled-state guard settings
+ */
+let enableGuardOptions: EnableGuardOptions = {
+  ...DEFAULT_ENABLE_GUARD_OPTIONS,
+};
 
-console.log("📱 JS: Native module loaded:", nativeModule);
+/**
+ * Auto-enable in progress, shared by updates that arrive while it runs
+ */
+let pendingAutoEnable: Promise<void> | null = null;
 
 /**
- * Map to store event listeners for manual management
+ * Latest known session snapshot
+ * Replaced (never mutated) on change so subscribers can compare by reference
  */
-const eventListeners: {
-  mediaControl: MediaControlEventListener[];
-  volumeChange: VolumeChangeListener[];
-} = {
-  mediaControl: [],
-  volumeChange: [],
-};
+let sessionSnapshot: MediaControlSnapshot = INITIAL_SNAPSHOT;
+
+/**
+ * Number of snapshot updates so far, so a native read can tell it was overtaken
+ */
+let snapshotVersion = 0;
+
+/**
+ * Merge changes into the session snapshot and notify snapshot listeners
+ */
+function updateSnapshot(changes: Partial<MediaControlSnapshot>): void {
+  const previousState = sessionSnapshot.state;
+  sessionSnapshot = { ...sessionSnapshot, ...changes };
+  snapshotVersion += 1;
+
+  if (sessionSnapshot.state !== previousState) {
+    const event: StateChangeEvent = {
+      previousState,
+      nextState: sessionSnapshot.state,
+      timestamp: Date.now(),
+    };
+    eventListeners.stateChange.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        log.error("Error in state change listener", { error });
+      }
+    });
+  }
+
+  eventListeners.snapshot.forEach((listener) => {
+    try {
+      listener(sessionSnapshot);
+    } catch (error) {
+      log.error("Error in snapshot listener", { error });
+    }
+  });
+}
 
 /**
  * Extended module class that combines native methods with simplified event handling
@@ -491,74 +716,99 @@ class ExtendedExpoMediaControlModule {
   // =============================================
 
   /**
-   * Enable media controls with specified configuration
-   * Initializes the media session and sets up remote control handlers
+   * Run an operation that calls the native module
+   * MediaControlErrors (e.g. validation) are rethrown as they are; any other
+   * failure is logged and rethrown as a NativeError with the operation's code
+   * @param operation - Operation name, used for logging and the error code
+   * @param call - The operation, given the time it started for logging
    */
-  enableMediaControls = async (
-    options?: MediaControlOptions,
-  ): Promise<void> => {
+  private _callNative = async <T>(
+    operation: NativeOperation,
+    call: (startedAt: number) => Promise<T>,
+  ): Promise<T> => {
+    const startedAt = Date.now();
     try {
-      // Validate input
-      if (options !== undefined) {
-        validateMediaControlOptions(options);
-      }
-
-      await nativeModule.enableMediaControls(options);
-
-      // Add native event listeners
-      (nativeModule as any).addListener(
-        "mediaControlEvent",
-        this._dispatchMediaControlEvent,
-      );
-      (nativeModule as any).addListener(
-        "volumeChangeEvent",
-        this._dispatchVolumeChangeEvent,
-      );
+      return await call(startedAt);
     } catch (error) {
-      if (error instanceof ValidationError) {
+      if (error instanceof MediaControlError) {
         throw error;
       }
+      const { code, description } = NATIVE_OPERATION_FAILURES[operation];
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       const nativeError = new NativeError(
-        `Failed to enable media controls: ${errorMessage}`,
-        "ENABLE_FAILED",
+        `Failed to ${description}: ${errorMessage}`,
+        code,
         error instanceof Error ? error : undefined,
       );
-      console.error(nativeError.message);
+      log.error(nativeError.message, {
+        operation,
+        code: nativeError.code,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
       throw nativeError;
     }
   };
 
   /**
-   * Disable media controls and clean up all resources
-   * Stops the media session and removes all handlers
-   */
-  disableMediaControls = async (): Promise<void> => {
-    try {
-      await nativeModule.disableMediaControls();
+   * Enable media controls with specified configuration
+   * Initializes the media session and sets up remote control handlers
+   */
+  enableMediaControls = (options?: MediaControlOptions): Promise<void> =>
+    this._callNative("enableMediaControls", async (startedAt) => {
+      // Validate input
+      if (options !== undefined) {
+        options = checkMediaControlOptions(options);
+      }
 
-      // Remove all native event listeners
-      (nativeModule as any).removeAllListeners("mediaControlEvent");
-      (nativeModule as any).removeAllListeners("volumeChangeEvent");
-    } catch (error) {
-      console.error("Failed to disable media controls:", error);
-      throw error;
-    }
-  };
+      await getNativeModule().enableMediaControls(options);
+      controlOptions = options ?? null;
+
+      // Subscribe to native events once, however often controls are enabled
+      if (!sessionSubscription) {
+        sessionSubscription = this._retainNativeEvent("mediaControlEvent");
+      }
+
+      updateSnapshot({ isEnabled: true });
+      log.debug("Media controls enabled", {
+        operation: "enableMediaControls",
+        durationMs: Date.now() - startedAt,
+        data: options,
+      });
+    });
+
+  /**
+   * Disable media controls and clean up all resources
+   * Stops the media session and removes all handlers
+   */
+  disableMediaControls = (): Promise<void> =>
+    this._callNative("disableMediaControls", async (startedAt) => {
+      await getNativeModule().disableMediaControls();
+
+      // Release the session's native subscription; listeners keep their own
+      sessionSubscription?.();
+      sessionSubscription = null;
+
+      resetQueue();
+      eventBuffer.events = [];
+      controlOptions = null;
+      updateSnapshot(INITIAL_SNAPSHOT);
+      log.debug("Media controls disabled", {
+        operation: "disableMediaControls",
+        durationMs: Date.now() - startedAt,
+      });
+    });
 
   /**
    * Update the media metadata displayed in system controls
    * Updates notification, lock screen, and control center information
    */
-  updateMetadata = async (metadata: MediaMetadata): Promise<void> => {
-    try {
-      console.log(
-        "📱 JS: Updating metadata:",
-        JSON.stringify(metadata, null, 2),
-      );
+  updateMetadata = (metadata: MediaMetadata): Promise<void> =>
+    this._callNative("updateMetadata", async (startedAt) => {
       // Validate input
-      validateMetadata(metadata);
+      metadata = checkMetadata(metadata);
+      await this._ensureEnabled("updateMetadata");
 
       // Filter out undefined values to prevent native conversion errors
       // This ensures robust handling of optional metadata fields
@@ -566,41 +816,83 @@ class ExtendedExpoMediaControlModule {
         Object.entries(metadata).filter(([_, value]) => value !== undefined),
       ) as MediaMetadata;
 
-      console.log(
-        "📱 JS: Sending cleaned metadata to native:",
-        JSON.stringify(cleanMetadata, null, 2),
-      );
+      await getNativeModule().updateMetadata(toNativeMetadata(cleanMetadata));
 
-      await nativeModule.updateMetadata(cleanMetadata);
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error;
+      updateSnapshot({ metadata: cleanMetadata });
+      log.debug("Metadata updated", {
+        operation: "updateMetadata",
+        durationMs: Date.now() - startedAt,
+        data: cleanMetadata,
+      });
+    });
+
+  /**
+   * Merge a partial update into the current metadata
+   * Only changed fields are sent to native, and nothing is sent when nothing changed.
+   * Set a field to null to clear it.
+   * @param patch - Fields to change
+   */
+  patchMetadata = (patch: MetadataPatch): Promise<void> =>
+    this._callNative("patchMetadata", async (startedAt) => {
+      if (!patch || typeof patch !== "object") {
+        throw new ValidationError("Metadata patch must be an object", "patch");
       }
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      const nativeError = new NativeError(
-        `Failed to update metadata: ${errorMessage}`,
-        "UPDATE_METADATA_FAILED",
-        error instanceof Error ? error : undefined,
+
+      // Validate the fields being set; null (clear) is always allowed
+      const validFields = checkMetadata(
+        Object.fromEntries(
+          Object.entries(patch).filter(([_, value]) => value !== null),
+        ),
       );
-      console.error(nativeError.message);
-      throw nativeError;
-    }
-  };
+      patch = {
+        ...Object.fromEntries(
+          Object.entries(patch).filter(([_, value]) => value === null),
+        ),
+        ...validFields,
+      };
+      await this._ensureEnabled("patchMetadata");
+
+      const current = sessionSnapshot.metadata ?? {};
+      const changes = diffMetadata(current, patch);
+      if (Object.keys(changes).length === 0) {
+        return;
+      }
+
+      const nativeChanges = toNativeMetadata(changes);
+      if (Object.keys(nativeChanges).length > 0) {
+        await getNativeModule().patchMetadata(nativeChanges);
+      }
+
+      const merged: Record<string, unknown> = { ...current };
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null) {
+          delete merged[key];
+        } else {
+          merged[key] = value;
+        }
+      }
+      updateSnapshot({ metadata: merged as MediaMetadata });
+      log.debug("Metadata patched", {
+        operation: "patchMetadata",
+        durationMs: Date.now() - startedAt,
+        data: changes,
+      });
+    });
 
   /**
    * Update the current playback state and position
    * Updates the system about current playback status
    * @param state - The playback state
-   * @param position - The current position in seconds (optional)
-   * @param playbackRate - The playback rate/speed (optional, defaults to 1.0 when playing, 0.0 when paused)
+   * @param position - The current position in seconds (optional, defaults to the estimated position)
+   * @param playbackRate - The playback rate/speed (optional, defaults to 1.0 when playing, 0.0 otherwise)
+   * @throws ValidationError on an illegal state transition when the state machine is strict
    */
-  updatePlaybackState = async (
+  updatePlaybackState = (
     state: PlaybackState,
     position?: number,
     playbackRate?: number,
-  ): Promise<void> => {
-    try {
+  ): Promise<void> =>
+    this._callNative("updatePlaybackState", async (startedAt) => {
       // Validate input
       validatePlaybackState(state);
       if (position !== undefined) {
@@ -609,36 +901,52 @@ class ExtendedExpoMediaControlModule {
       if (playbackRate !== undefined) {
         validatePlaybackRate(playbackRate);
       }
-
-      await nativeModule.updatePlaybackState(state, position, playbackRate);
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error;
-      }
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      const nativeError = new NativeError(
-        `Failed to update playback state: ${errorMessage}`,
-        "UPDATE_STATE_FAILED",
-        error instanceof Error ? error : undefined,
-      );
-      console.error(nativeError.message);
-      throw nativeError;
-    }
-  };
+      checkStateTransition(sessionSnapshot.state, state);
+      await this._ensureEnabled("updatePlaybackState");
+
+      const rate = playbackRate ?? getDefaultPlaybackRate(state);
+      // Without a position, carry on from where the clock says playback is
+      const nextPosition = position ?? estimatePosition(sessionSnapshot);
+      await getNativeModule().updatePlaybackState(state, nextPosition, rate);
+
+      updateSnapshot({
+        state,
+        position: nextPosition,
+        playbackRate: rate,
+        positionUpdatedAt: Date.now(),
+      });
+      log.debug("Playback state updated", {
+        operation: "updatePlaybackState",
+        durationMs: Date.now() - startedAt,
+        data: { state, position: nextPosition, playbackRate: rate },
+      });
+    });
 
   /**
    * Reset all media control information to default state
    * Clears all metadata and resets playback state
    */
-  resetControls = async (): Promise<void> => {
-    try {
-      await nativeModule.resetControls();
-    } catch (error) {
-      console.error("Failed to reset controls:", error);
-      throw error;
-    }
-  };
+  resetControls = (): Promise<void> =>
+    this._callNative("resetControls", async (startedAt) => {
+      await getNativeModule().resetControls();
+
+      resetQueue();
+
+      updateSnapshot({
+        metadata: null,
+        state: PlaybackState.NONE,
+        position: 0,
+        playbackRate: 0,
+        positionUpdatedAt: Date.now(),
+        shuffleMode: "off",
+        repeatMode: "off",
+        feedback: NO_FEEDBACK,
+      });
+      log.debug("Controls reset", {
+        operation: "resetControls",
+        durationMs: Date.now() - startedAt,
+      });
+    });
 
   /**
    * Check if media controls are currently enabled
@@ -646,9 +954,12 @@ class ExtendedExpoMediaControlModule {
    */
   isEnabled = async (): Promise<boolean> => {
     try {
-      return await nativeModule.isEnabled();
+      return await getNativeModule().isEnabled();
     } catch (error) {
-      console.error("Failed to check if controls are enabled:", error);
+      log.error("Failed to check if controls are enabled", {
+        operation: "isEnabled",
+        error,
+      });
       return false;
     }
   };
@@ -659,9 +970,12 @@ class ExtendedExpoMediaControlModule {
    */
   getCurrentMetadata = async (): Promise<MediaMetadata | null> => {
     try {
-      return await nativeModule.getCurrentMetadata();
+      return await getNativeModule().getCurrentMetadata();
     } catch (error) {
-      console.error("Failed to get current metadata:", error);
+      log.error("Failed to get current metadata", {
+        operation: "getCurrentMetadata",
+        error,
+      });
       return null;
     }
   };
@@ -672,13 +986,591 @@ class ExtendedExpoMediaControlModule {
    */
   getCurrentState = async (): Promise<PlaybackState> => {
     try {
-      return await nativeModule.getCurrentState();
+      return await getNativeModule().getCurrentState();
     } catch (error) {
-      console.error("Failed to get current state:", error);
+      log.error("Failed to get current state", {
+        operation: "getCurrentState",
+        error,
+      });
       return PlaybackState.NONE;
     }
   };
 
+  // =============================================
+  // VOLUME METHODS
+  // Read and set the system volume
+  // =============================================
+
+  /**
+   * Get the current system volume
+   * Android reports the media stream, iOS the output volume of the current route
+   * @returns Volume from 0.0 to 1.0 with mute status and stream details
+   */
+  getVolume = (): Promise<VolumeState> =>
+    this._callNative("getVolume", async () => {
+      const state = normalizeVolumeChange(await getNativeModule().getVolume());
+      if (!state) {
+        throw new Error("Invalid volume returned by native module");
+      }
+      const { volume, muted, streamType, maxSteps } = state;
+      return maxSteps !== undefined
+        ? { volume, muted, streamType, maxSteps }
+        : { volume, muted, streamType };
+    });
+
+  /**
+   * Set the system volume
+   * Supported on Android (media stream, rounded to the nearest step). iOS does not
+   * let apps change the system volume, so the call is rejected there.
+   * Volume listeners receive the change with `userInitiated: false`.
+   * @param level Volume from 0.0 to 1.0
+   */
+  setVolume = (level: number): Promise<void> =>
+    this._callNative("setVolume", async () => {
+      if (typeof level !== "number" || !isFinite(level)) {
+        throw new ValidationError("Volume must be a finite number", "level");
+      }
+      if (level < 0 || level > 1) {
+        throw new ValidationError("Volume must be between 0 and 1", "level");
+      }
+
+      await getNativeModule().setVolume(level);
+    });
+
+  /**
+   * Replace the custom actions shown by the system controls
+   * Use it to change buttons at runtime, e.g. swap a heart outline for a filled heart.
+   * On Android the actions appear in the notification and on the media session;
+   * on iOS they take the like, dislike and bookmark commands not used by ratings.
+   * @param actions - Custom actions in display order (empty to remove them all)
+   * @example
+   * ```typescript
+   * await MediaControl.updateCustomActions([
+   *   { id: 'like', title: 'Unlike', icon: 'ic_heart_filled', showInCompact: true },
+   * ]);
+   * ```
+   */
+  updateCustomActions = (actions: CustomAction[]): Promise<void> =>
+    this._callNative("updateCustomActions", async (startedAt) => {
+      // Validate together with compactCapabilities, which share the compact view
+      const { customActions = [] } = checkMediaControlOptions({
+        compactCapabilities: controlOptions?.compactCapabilities,
+        customActions: actions,
+      });
+      await this._ensureEnabled("updateCustomActions");
+
+      await getNativeModule().updateCustomActions(customActions);
+      controlOptions = { ...controlOptions, customActions };
+      log.debug("Custom actions updated", {
+        operation: "updateCustomActions",
+        durationMs: Date.now() - startedAt,
+        data: customActions,
+      });
+    });
+
+  /**
+   * Publish the current shuffle mode to the system session
+   * Car head units and watches show it on their shuffle toggle. Requires
+   * `Command.SET_SHUFFLE_MODE` in the capabilities for the toggle to be usable.
+   * @param mode - "off", "all" or "group"
+   */
+  setShuffleMode = (mode: ShuffleMode): Promise<void> =>
+    this._callNative("setShuffleMode", async (startedAt) => {
+      if (!SHUFFLE_MODES.includes(mode)) {
+        throw new ValidationError(
+          `Shuffle mode must be one of: ${SHUFFLE_MODES.join(", ")}`,
+          "mode",
+        );
+      }
+      await this._ensureEnabled("setShuffleMode");
+      warnIfCapabilityMissing(Command.SET_SHUFFLE_MODE, "setShuffleMode");
+
+      await getNativeModule().setShuffleMode(mode);
+      updateSnapshot({ shuffleMode: mode });
+      log.debug("Shuffle mode set", {
+        operation: "setShuffleMode",
+        durationMs: Date.now() - startedAt,
+        data: mode,
+      });
+    });
+
+  /**
+   * Publish the current repeat mode to the system session
+   * Car head units and watches show it on their repeat toggle. Requires
+   * `Command.SET_REPEAT_MODE` in the capabilities for the toggle to be usable.
+   * @param mode - "off", "one" or "all"
+   */
+  setRepeatMode = (mode: RepeatMode): Promise<void> =>
+    this._callNative("setRepeatMode", async (startedAt) => {
+      if (!REPEAT_MODES.includes(mode)) {
+        throw new ValidationError(
+          `Repeat mode must be one of: ${REPEAT_MODES.join(", ")}`,
+          "mode",
+        );
+      }
+      await this._ensureEnabled("setRepeatMode");
+      warnIfCapabilityMissing(Command.SET_REPEAT_MODE, "setRepeatMode");
+
+      await getNativeModule().setRepeatMode(mode);
+      updateSnapshot({ repeatMode: mode });
+      log.debug("Repeat mode set", {
+        operation: "setRepeatMode",
+        durationMs: Date.now() - startedAt,
+        data: mode,
+      });
+    });
+
+  /**
+   * Publish the like, dislike and bookmark state of the current track
+   * Surfaces show it on their feedback buttons; publish it again on every track
+   * change. Omitted fields keep their value, and liking clears a dislike (and the
+   * other way round) unless both are given. Requires `Command.LIKE`,
+   * `Command.DISLIKE` or `Command.BOOKMARK` in the capabilities for the buttons.
+   * @param state - Feedback fields to change
+   * @example
+   * ```typescript
+   * MediaControl.on(Command.LIKE, ({ data }) =>
+   *   MediaControl.setFeedbackState({ liked: data.isActive }),
+   * );
+   * ```
+   */
+  setFeedbackState = (state: Partial<FeedbackState>): Promise<void> =>
+    this._callNative("setFeedbackState", async (startedAt) => {
+      if (!state || typeof state !== "object") {
+        throw new ValidationError("Feedback state must be an object", "state");
+      }
+      for (const [field, value] of Object.entries(state)) {
+        if (!(field in FEEDBACK_COMMANDS)) {
+          throw new ValidationError(`Unknown feedback field: ${field}`, field);
+        }
+        if (typeof value !== "boolean") {
+          throw new ValidationError(`${field} must be a boolean`, field);
+        }
+      }
+      if (state.liked && state.disliked) {
+        throw new ValidationError(
+          "liked and disliked cannot both be true",
+          "state",
+        );
+      }
+      await this._ensureEnabled("setFeedbackState");
+      (Object.keys(state) as (keyof FeedbackState)[]).forEach((field) =>
+        warnIfCapabilityMissing(FEEDBACK_COMMANDS[field], "setFeedbackState"),
+      );
+
+      const feedback = { ...sessionSnapshot.feedback, ...state };
+      if (state.liked) {
+        feedback.disliked = false;
+      }
+      if (state.disliked) {
+        feedback.liked = false;
+      }
+      await getNativeModule().setFeedbackState(feedback);
+      updateSnapshot({ feedback });
+      log.debug("Feedback state set", {
+        operation: "setFeedbackState",
+        durationMs: Date.now() - startedAt,
+        data: feedback,
+      });
+    });
+
+  // =============================================
+  // ARTWORK CACHE METHODS
+  // Preload and manage the native artwork cache
+  // =============================================
+
+  /**
+   * Load artwork into the native cache ahead of time
+   * Use it for the next track so its cover shows as soon as the track changes.
+   * Works while the controls are disabled; the cache limits set by
+   * `enableMediaControls` apply once they are enabled.
+   * @param source - Artwork URI, artwork object or bundled asset (`require()`)
+   * @throws NativeError with PREFETCH_ARTWORK_FAILED when the image cannot be loaded
+   * @example
+   * ```typescript
+   * const next = playlist[index + 1];
+   * if (next) {
+   *   MediaControl.prefetchArtwork(next.coverUrl).catch(() => {});
+   * }
+   * ```
+   */
+  prefetchArtwork = (source: string | ArtworkSource): Promise<void> =>
+    this._callNative("prefetchArtwork", async (startedAt) => {
+      const artwork = typeof source === "string" ? { uri: source } : source;
+      const issues = collectArtworkIssues(artwork, "artwork");
+      if (issues.length > 0) {
+        throw createValidationError(issues);
+      }
+
+      await getNativeModule().prefetchArtwork(
+        resolveArtworkSource(artwork).uri,
+      );
+      log.debug("Artwork prefetched", {
+        operation: "prefetchArtwork",
+        durationMs: Date.now() - startedAt,
+      });
+    });
+
+  /**
+   * Remove all cached artwork and reset the hit and miss counts
+   * The artwork currently on display stays visible. The cache is also cleared
+   * when the controls are disabled.
+   */
+  clearArtworkCache = (): Promise<void> =>
+    this._callNative("clearArtworkCache", async (startedAt) => {
+      await getNativeModule().clearArtworkCache();
+      log.debug("Artwork cache cleared", {
+        operation: "clearArtworkCache",
+        durationMs: Date.now() - startedAt,
+      });
+    });
+
+  /**
+   * Get the contents and counters of the native artwork cache
+   * Counts cover the time since the cache was last cleared.
+   * @returns Number and decoded size of cached images, with hit and miss counts
+   */
+  getArtworkCacheStats = (): Promise<ArtworkCacheStats> =>
+    this._callNative("getArtworkCacheStats", async () => {
+      const { entries, bytes, hits, misses } =
+        await getNativeModule().getArtworkCacheStats();
+      return {
+        entries: Number(entries),
+        bytes: Number(bytes),
+        hits: Number(hits),
+        misses: Number(misses),
+      };
+    });
+
+  // =============================================
+  // SESSION SNAPSHOT METHODS
+  // Synchronous access to the last known session state
+  // =============================================
+
+  /**
+   * Get the last known session snapshot
+   * Reflects every successful call made through this module without a native round trip
+   */
+  getSnapshot = (): MediaControlSnapshot => {
+    return sessionSnapshot;
+  };
+
+  /**
+   * Add listener for session snapshot changes
+   * Called after metadata, playback state or enabled status change
+   * @param listener Function to call with the new snapshot
+   * @returns Function to remove the listener
+   */
+  addSnapshotListener = (listener: SnapshotListener): EventSubscription => {
+    eventListeners.snapshot.push(listener);
+
+    return createSubscription("snapshot", () => {
+      const index = eventListeners.snapshot.indexOf(listener);
+      if (index > -1) {
+        eventListeners.snapshot.splice(index, 1);
+      }
+    });
+  };
+
+  /**
+   * Re-read enabled status, metadata and playback state from the native module
+   * Useful to hydrate the snapshot after a reload, when native state outlives JS.
+   * Native metadata only fills in when JS has none, since it lacks JS-only fields
+   * such as chapters. Nothing is merged when the snapshot changed while reading,
+   * as native may not reflect that update yet.
+   */
+  refreshSnapshot = async (): Promise<MediaControlSnapshot> => {
+    const startVersion = snapshotVersion;
+    const [enabled, metadata, state] = await Promise.all([
+      this.isEnabled(),
+      this.getCurrentMetadata(),
+      this.getCurrentState(),
+    ]);
+
+    if (snapshotVersion !== startVersion) {
+      log.debug("Skipped snapshot refresh overtaken by a local update", {
+        operation: "refreshSnapshot",
+      });
+      return sessionSnapshot;
+    }
+    updateSnapshot({
+      isEnabled: enabled,
+      metadata: sessionSnapshot.metadata ?? metadata,
+      state,
+    });
+    return sessionSnapshot;
+  };
+
+  // =============================================
+  // PLAYBACK CLOCK METHODS
+  // Extrapolate the position from the last update, like the system UI does
+  // =============================================
+
+  /**
+   * Get the current position extrapolated from the last playback state update
+   * Advances by elapsed time × playback rate while playing, clamped to the track duration
+   * @returns Estimated position in seconds
+   */
+  getEstimatedPosition = (): number => estimatePosition(sessionSnapshot);
+
+  /**
+   * Add listener that receives the estimated playback progress at a fixed interval
+   * @param intervalMs Tick interval in milliseconds
+   * @param listener Function to call on every tick
+   * @returns Function to remove the listener
+   */
+  addProgressListener = (
+    intervalMs: number,
+    listener: ProgressListener,
+  ): EventSubscription => {
+    if (
+      typeof intervalMs !== "number" ||
+      !isFinite(intervalMs) ||
+      intervalMs <= 0
+    ) {
+      throw new ValidationError(
+        "intervalMs must be a positive number",
+        "intervalMs",
+      );
+    }
+
+    const timer = setInterval(() => {
+      try {
+        listener({
+          position: this.getEstimatedPosition(),
+          duration: sessionSnapshot.metadata?.duration,
+          state: sessionSnapshot.state,
+        });
+      } catch (error) {
+        log.error("Error in progress listener", { error });
+      }
+    }, intervalMs);
+
+    return createSubscription("progress", () => clearInterval(timer));
+  };
+
+  /**
+   * Report the player's actual position, pushing it to native only when needed
+   * The system UI extrapolates the position on its own, so an update is only sent
+   * when the reported position drifts from the estimate by more than the threshold
+   * @param position - The player's current position in seconds
+   * @param driftThreshold - Tolerated drift in seconds (default: 1)
+   * @returns Whether the position was pushed to native
+   */
+  syncPlaybackPosition = async (
+    position: number,
+    driftThreshold: number = DEFAULT_DRIFT_THRESHOLD,
+  ): Promise<boolean> => {
+    validatePosition(position);
+    if (
+      typeof driftThreshold !== "number" ||
+      !isFinite(driftThreshold) ||
+      driftThreshold < 0
+    ) {
+      throw new ValidationError(
+        "driftThreshold must be a non-negative number",
+        "driftThreshold",
+      );
+    }
+
+    const drift = Math.abs(position - this.getEstimatedPosition());
+    if (drift <= driftThreshold) {
+      return false;
+    }
+
+    await this.updatePlaybackState(
+      sessionSnapshot.state,
+      position,
+      sessionSnapshot.playbackRate,
+    );
+    return true;
+  };
+
+  // =============================================
+  // QUEUE MANAGEMENT METHODS
+  // Index bookkeeping for playlists, mirrored to the system media session
+  // =============================================
+
+  /**
+   * Replace the playback queue
+   * The active item's metadata is pushed to system controls
+   * @param items - Queue entries in playback order
+   * @param activeId - Id of the item to make active (defaults to the first item)
+   */
+  setQueue = (items: QueueItem[], activeId?: string): Promise<void> =>
+    this._changeQueue("setQueue", () => setQueueItems(items, activeId));
+
+  /**
+   * Add items to the queue
+   * @param items - One or more queue entries
+   * @param index - Insertion index (defaults to the end of the queue)
+   */
+  addToQueue = (
+    items: QueueItem | QueueItem[],
+    index?: number,
+  ): Promise<void> =>
+    this._changeQueue("addToQueue", () => insertQueueItems(items, index));
+
+  /**
+   * Remove an item from the queue
+   * Removing the active item activates the item that takes its place
+   * @param id - Id of the item to remove
+   */
+  removeFromQueue = (id: string): Promise<void> =>
+    this._changeQueue("removeFromQueue", () => removeQueueItem(id));
+
+  /**
+   * Move an item to a new position in the queue
+   * @param id - Id of the item to move
+   * @param toIndex - Target index
+   */
+  moveQueueItem = (id: string, toIndex: number): Promise<void> =>
+    this._changeQueue("moveQueueItem", () => moveQueueItemTo(id, toIndex));
+
+  /**
+   * Make a queue item active and display its metadata
+   * @param id - Id of the item to activate
+   * @returns The activated item
+   * @throws MediaControlError with UPDATE_QUEUE_FAILED if no item ended up active
+   */
+  skipToQueueItem = async (id: string): Promise<QueueItem> => {
+    let activeItem: QueueItem | undefined;
+    await this._changeQueue("skipToQueueItem", () => {
+      const activeChanged = activateQueueItem(id);
+      activeItem = queueState.items[queueState.activeIndex];
+      return activeChanged;
+    });
+    if (!activeItem) {
+      throw new MediaControlError(
+        `Queue item ${id} is not active`,
+        "UPDATE_QUEUE_FAILED",
+      );
+    }
+    return activeItem;
+  };
+
+  /**
+   * Remove all items from the queue
+   * Metadata currently displayed is left untouched
+   */
+  clearQueue = (): Promise<void> =>
+    this._changeQueue("clearQueue", clearQueueItems);
+
+  /**
+   * Get a copy of the current queue
+   */
+  getQueue = (): QueueItem[] => {
+    return [...queueState.items];
+  };
+
+  /**
+   * Get the active queue item
+   * Returns null when the queue is empty
+   */
+  getActiveQueueItem = (): QueueItem | null => {
+    return getActiveQueueItem();
+  };
+
+  /**
+   * Edit the queue and publish it once controls are enabled
+   * When publishing fails the previous queue is restored, in JS and on native,
+   * so the JS queue never shows items the system controls do not
+   * @param operation - Public method name, for the enable guard
+   * @param change - Queue edit, returning whether the active item changed
+   */
+  private _changeQueue = (
+    operation: string,
+    change: () => boolean,
+  ): Promise<void> =>
+    serializeQueueOperation(async () => {
+      await this._ensureEnabled(operation);
+
+      const previous = {
+        items: [...queueState.items],
+        activeIndex: queueState.activeIndex,
+      };
+      const activeChanged = change();
+      try {
+        await this._syncQueue(activeChanged);
+      } catch (error) {
+        queueState.items = previous.items;
+        queueState.activeIndex = previous.activeIndex;
+        await this._republishQueue();
+        throw error;
+      }
+    });
+
+  /**
+   * Send the JS queue to native again after a failed change
+   * Best effort: a failure is logged, the original error is what callers see
+   */
+  private _republishQueue = async (): Promise<void> => {
+    try {
+      await getNativeModule().updateQueue(
+        queueState.items.map(toNativeQueueItem),
+        queueState.activeIndex,
+      );
+    } catch (error) {
+      log.error("Failed to restore queue", {
+        operation: "_republishQueue",
+        error,
+      });
+    }
+  };
+
+  /**
+   * Publish the queue to native, optionally pushing the active item's metadata
+   */
+  private _syncQueue = async (activeChanged: boolean): Promise<void> => {
+    await this._callNative("_syncQueue", () =>
+      getNativeModule().updateQueue(
+        queueState.items.map(toNativeQueueItem),
+        queueState.activeIndex,
+      ),
+    );
+
+    const activeItem = getActiveQueueItem();
+    if (activeChanged && activeItem) {
+      await this.updateMetadata(activeItem.metadata);
+    }
+  };
+
+  /**
+   * Attach queue context to a track navigation event and advance the queue
+   * The active index only moves once the system controls show the target item;
+   * when publishing fails the queue stays put and `targetItem` is null, as at
+   * either end of the queue
+   */
+  private _applyQueueTransition = (
+    event: MediaControlEvent,
+  ): Promise<MediaControlEvent> =>
+    serializeQueueOperation(async () => {
+      // Worked out when the operation runs, after earlier queue changes
+      const targetIndex = getQueueTransitionIndex(event);
+      const currentItem = getActiveQueueItem();
+      let targetItem: QueueItem | null = queueState.items[targetIndex] ?? null;
+      if (targetItem) {
+        const previousIndex = queueState.activeIndex;
+        queueState.activeIndex = targetIndex;
+        try {
+          await this._syncQueue(true);
+        } catch (error) {
+          queueState.activeIndex = previousIndex;
+          await this._republishQueue();
+          targetItem = null;
+          log.error("Failed to apply queue transition", {
+            operation: "_applyQueueTransition",
+            error,
+          });
+        }
+      }
+
+      return {
+        ...event,
+        data: { ...event.data, currentItem, targetItem },
+      } as MediaControlEvent;
+    });
+
   // =============================================
   // SIMPLIFIED EVENT HANDLING METHODS
   // Use manual listener management for better control
@@ -690,45 +1582,446 @@ class ExtendedExpoMediaControlModule {
    * @param listener Function to call when media control events occur
    * @returns Function to remove the listener
    */
-  addListener = (listener: MediaControlEventListener): (() => void) => {
-    console.log("📱 JS: Adding media control event listener");
-    eventListeners.mediaControl.push(listener);
+  addListener = (listener: MediaControlEventListener): EventSubscription => {
+    log.debug("Adding media control event listener", {
+      operation: "addListener",
+    });
+    return this._addMediaControlListener({ listener });
+  };
 
-    // Return removal function
-    return () => {
-      const index = eventListeners.mediaControl.indexOf(listener);
+  /**
+   * Add listener for a single media control command
+   * The event passed to the listener is typed for that command, e.g. SEEK events carry `data.position`
+   * @param command The command to listen for
+   * @param listener Function to call when the command is received
+   * @returns Function to remove the listener
+   */
+  on = <C extends Command>(
+    command: C,
+    listener: CommandListener<C>,
+  ): EventSubscription => {
+    return this._addMediaControlListener({
+      listener: (event) => listener(event as MediaControlEvent<C>),
+      command,
+    });
+  };
+
+  /**
+   * Configure the buffer holding media control events that arrive while no
+   * listener is registered, e.g. the lock-screen press that cold-started the app
+   * Buffered events are replayed to the first listener registered for them.
+   * The settings also apply to events the native module keeps while JS is not
+   * subscribed; before the first call it uses the defaults.
+   * @param options Buffer settings; omitted fields keep their current value
+   */
+  configureEventBuffer = (options: EventBufferOptions): void => {
+    const { enabled, maxSize, ttl } = options;
+
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      throw new ValidationError("enabled must be a boolean", "enabled");
+    }
+    if (
+      maxSize !== undefined &&
+      (typeof maxSize !== "number" || !Number.isInteger(maxSize) || maxSize < 1)
+    ) {
+      throw new ValidationError(
+        "maxSize must be a positive integer",
+        "maxSize",
+      );
+    }
+    if (
+      ttl !== undefined &&
+      (typeof ttl !== "number" || !isFinite(ttl) || ttl <= 0)
+    ) {
+      throw new ValidationError("ttl must be a positive number", "ttl");
+    }
+
+    eventBuffer.options = {
+      enabled: enabled ?? eventBuffer.options.enabled,
+      maxSize: maxSize ?? eventBuffer.options.maxSize,
+      ttl: ttl ?? eventBuffer.options.ttl,
+    };
+
+    if (!eventBuffer.options.enabled) {
+      eventBuffer.events = [];
+    } else {
+      eventBuffer.events = eventBuffer.events.slice(
+        -eventBuffer.options.maxSize,
+      );
+    }
+
+    // Native keeps events until JS subscribes; apply the same limits there
+    try {
+      getNativeModule()
+        .configureEventBuffer({ ...eventBuffer.options })
+        .catch((error) => {
+          log.warn("Failed to configure the native event buffer", { error });
+        });
+    } catch (error) {
+      log.warn("Failed to configure the native event buffer", { error });
+    }
+  };
+
+  /**
+   * Configure what happens when metadata or playback state is updated before
+   * enableMediaControls has been called
+   * @param options Guard settings; omitted fields keep their current value
+   */
+  configureEnableGuard = (options: EnableGuardOptions): void => {
+    const { behavior, autoEnableOptions } = options;
+
+    if (
+      behavior !== undefined &&
+      behavior !== "throw" &&
+      behavior !== "autoEnable"
+    ) {
+      throw new ValidationError(
+        'behavior must be "throw" or "autoEnable"',
+        "behavior",
+      );
+    }
+    if (autoEnableOptions !== undefined) {
+      const issues = collectMediaControlOptionsIssues(autoEnableOptions);
+      if (issues.length > 0) {
+        throw createValidationError(issues);
+      }
+    }
+
+    enableGuardOptions = {
+      behavior: behavior ?? enableGuardOptions.behavior,
+      autoEnableOptions:
+        autoEnableOptions ?? enableGuardOptions.autoEnableOptions,
+    };
+  };
+
+  /**
+   * Make sure media controls are enabled before an update that needs them
+   * The native session is checked before giving up, since it survives a JS
+   * reload while the JS-side state does not
+   */
+  private _ensureEnabled = async (operation: string): Promise<void> => {
+    if (sessionSnapshot.isEnabled) {
+      return;
+    }
+
+    const nativeEnabled = await getNativeModule()
+      .isEnabled()
+      .catch(() => false);
+    if (nativeEnabled) {
+      updateSnapshot({ isEnabled: true });
+      return;
+    }
+
+    if (enableGuardOptions.behavior !== "autoEnable") {
+      throw new NotEnabledError(
+        `Media controls are not enabled; call enableMediaControls() before ${operation}()`,
+      );
+    }
+
+    if (!pendingAutoEnable) {
+      log.info("Enabling media controls automatically", { operation });
+      pendingAutoEnable = this.enableMediaControls(
+        enableGuardOptions.autoEnableOptions,
+      ).finally(() => {
+        pendingAutoEnable = null;
+      });
+    }
+    await pendingAutoEnable;
+  };
+
+  /**
+   * Configure how invalid metadata, queue items and options are handled
+   * In lenient mode invalid fields are dropped with a warning instead of rejected
+   * @param options Validation settings; omitted fields keep their current value
+   */
+  configureValidation = (options: ValidationOptions): void => {
+    const { mode } = options;
+
+    if (mode !== undefined && mode !== "strict" && mode !== "lenient") {
+      throw new ValidationError('mode must be "strict" or "lenient"', "mode");
+    }
+
+    validationOptions.mode = mode ?? validationOptions.mode;
+  };
+
+  /**
+   * Route log records to your own logger, e.g. to forward them to telemetry
+   * Records carry the operation, duration and error code where available
+   * @param logger Logger receiving records at or above the log level, or null
+   * to go back to the console
+   */
+  setLogger = (logger: MediaControlLogger | null): void => {
+    if (logger !== null && (!logger || typeof logger !== "object")) {
+      throw new ValidationError("Logger must be an object or null", "logger");
+    }
+    loggerState.logger = logger ?? consoleLogger;
+  };
+
+  /**
+   * Set the minimum level of emitted log records
+   * Defaults to "warn" in development and "silent" in production builds
+   * @param level Minimum level, or "silent" to turn logging off
+   */
+  setLogLevel = (level: LogLevel): void => {
+    if (!Object.keys(LOG_LEVEL_PRIORITY).includes(level)) {
+      throw new ValidationError(`Invalid log level: ${level}`, "level");
+    }
+    loggerState.level = level;
+  };
+
+  /**
+   * Get the minimum level of emitted log records
+   */
+  getLogLevel = (): LogLevel => {
+    return loggerState.level;
+  };
+
+  /**
+   * Check metadata without sending it
+   * @param metadata Metadata to check, e.g. a payload received from a server
+   * @returns Every issue found, empty when the metadata is valid
+   */
+  validateMetadata = (metadata: unknown): ValidationIssue[] => {
+    return collectMetadataIssues(metadata);
+  };
+
+  /**
+   * Check media control options without enabling controls
+   * @param options Options to check
+   * @returns Every issue found, empty when the options are valid
+   */
+  validateMediaControlOptions = (options: unknown): ValidationIssue[] => {
+    return collectMediaControlOptionsIssues(options);
+  };
+
+  /**
+   * Configure how updatePlaybackState checks playback state transitions
+   * Illegal transitions (e.g. ERROR → PLAYING without reloading) are logged as a
+   * warning by default, or rejected with a ValidationError in strict mode
+   * @param options Transition settings; omitted fields keep their current value
+   */
+  configureStateMachine = (options: StateMachineOptions): void => {
+    const { validateTransitions, strict } = options;
+
+    if (
+      validateTransitions !== undefined &&
+      typeof validateTransitions !== "boolean"
+    ) {
+      throw new ValidationError(
+        "validateTransitions must be a boolean",
+        "validateTransitions",
+      );
+    }
+    if (strict !== undefined && typeof strict !== "boolean") {
+      throw new ValidationError("strict must be a boolean", "strict");
+    }
+
+    Object.assign(stateMachineOptions, {
+      validateTransitions:
+        validateTransitions ?? stateMachineOptions.validateTransitions,
+      strict: strict ?? stateMachineOptions.strict,
+    });
+  };
+
+  /**
+   * Register a media control listener and replay buffered events it matches
+   */
+  private _addMediaControlListener = (
+    entry: MediaControlListenerEntry,
+  ): EventSubscription => {
+    const release = this._retainNativeEvent("mediaControlEvent");
+    eventListeners.mediaControl.push(entry);
+    this._flushEventBuffer(entry);
+
+    return createSubscription("mediaControl", () => {
+      const index = eventListeners.mediaControl.indexOf(entry);
       if (index > -1) {
         eventListeners.mediaControl.splice(index, 1);
       }
+      release();
+    });
+  };
+
+  /**
+   * Take a reference on a native event subscription
+   * The native listener is added on the first reference and removed with the last,
+   * so each native event is dispatched once however many JS listeners exist
+   * @returns Function releasing the reference (safe to call more than once)
+   */
+  private _retainNativeEvent = (eventName: NativeEventName): (() => void) => {
+    let entry = nativeSubscriptions.get(eventName);
+    if (!entry) {
+      const handler =
+        eventName === "mediaControlEvent"
+          ? this._dispatchMediaControlEvent
+          : this._dispatchVolumeChangeEvent;
+      try {
+        entry = {
+          subscription: getNativeModule().addListener(eventName, handler),
+          refCount: 0,
+        };
+      } catch (error) {
+        log.warn(`Failed to subscribe to native ${eventName}`, { error });
+        return () => {};
+      }
+      nativeSubscriptions.set(eventName, entry);
+    }
+
+    const retained = entry;
+    retained.refCount += 1;
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      retained.refCount -= 1;
+      if (
+        retained.refCount === 0 &&
+        nativeSubscriptions.get(eventName) === retained
+      ) {
+        retained.subscription.remove();
+        nativeSubscriptions.delete(eventName);
+      }
     };
   };
 
+  /**
+   * Hand buffered events matching a newly registered listener over to it
+   * Replayed on a microtask so the caller has its removal function first
+   */
+  private _flushEventBuffer = (entry: MediaControlListenerEntry): void => {
+    pruneEventBuffer();
+    const matching = eventBuffer.events.filter(
+      ({ event }) => !entry.command || event.command === entry.command,
+    );
+    if (matching.length === 0) {
+      return;
+    }
+    eventBuffer.events = eventBuffer.events.filter(
+      (buffered) => !matching.includes(buffered),
+    );
+
+    Promise.resolve().then(() => {
+      // Keep the events for the next listener if this one was removed meanwhile
+      if (!eventListeners.mediaControl.includes(entry)) {
+        eventBuffer.events.unshift(...matching);
+        return;
+      }
+      matching.forEach(({ event }) => {
+        try {
+          entry.listener(event);
+        } catch (error) {
+          log.error("Error in media control event listener", { error });
+        }
+      });
+    });
+  };
+
+  /**
+   * Add middleware to the media control event pipeline
+   * Middleware runs in registration order after events are normalized and before
+   * listeners are called, and can drop, delay, transform or replace events
+   * @param middleware Function receiving each event and a `next` callback
+   * @returns Subscription removing the middleware
+   * @example
+   * ```typescript
+   * // Turn track skips into 30 second jumps for podcasts
+   * MediaControl.use((event, next) => {
+   *   if (event.command === Command.NEXT_TRACK) {
+   *     next({ command: Command.SKIP_FORWARD, data: { interval: 30 }, timestamp: event.timestamp });
+   *   } else {
+   *     next(event);
+   *   }
+   * });
+   * ```
+   */
+  use = (middleware: MediaControlMiddleware): EventSubscription => {
+    if (typeof middleware !== "function") {
+      throw new ValidationError("Middleware must be a function", "middleware");
+    }
+
+    middlewares.push(middleware);
+
+    // Not tracked by removeAllListeners: middleware is not a listener
+    return createRemovableSubscription(() => {
+      const index = middlewares.indexOf(middleware);
+      if (index > -1) {
+        middlewares.splice(index, 1);
+      }
+    });
+  };
+
   /**
    * Add listener for volume change events
    * These events are triggered when system volume changes
    * @param listener Function to call when volume changes
-   * @returns Function to remove the listener
+   * @returns Subscription removing the listener
    */
-  addVolumeChangeListener = (listener: VolumeChangeListener): (() => void) => {
+  addVolumeChangeListener = (
+    listener: VolumeChangeListener,
+  ): EventSubscription => {
+    const release = this._retainNativeEvent("volumeChange");
     eventListeners.volumeChange.push(listener);
 
-    // Return removal function
-    return () => {
+    return createSubscription("volumeChange", () => {
       const index = eventListeners.volumeChange.indexOf(listener);
       if (index > -1) {
         eventListeners.volumeChange.splice(index, 1);
       }
-    };
+      release();
+    });
+  };
+
+  /**
+   * Add listener for playback state changes
+   * Called after updatePlaybackState, resetControls or disableMediaControls moves the
+   * session to a different state; position-only updates do not trigger it
+   * @param listener Function to call with the previous and next state
+   * @returns Subscription removing the listener
+   */
+  addStateChangeListener = (
+    listener: StateChangeListener,
+  ): EventSubscription => {
+    eventListeners.stateChange.push(listener);
+
+    return createSubscription("stateChange", () => {
+      const index = eventListeners.stateChange.indexOf(listener);
+      if (index > -1) {
+        eventListeners.stateChange.splice(index, 1);
+      }
+    });
   };
 
   /**
-   * Remove all event listeners for all event types
-   * Cleans up all subscribed event handlers
-   * @returns Promise that resolves when all listeners are removed
+   * Remove all event listeners of one type, or of every type
+   * Without a type, media control, volume change, state change and progress listeners are removed;
+   * snapshot listeners (used by the React hooks) are only removed when asked for
+   * @param eventType Listener type to clear
+   * @returns Promise that resolves when the listeners are removed
+   * @throws ValidationError if eventType is not a listener type
    */
-  removeAllListeners = async (): Promise<void> => {
-    eventListeners.mediaControl.length = 0;
-    eventListeners.volumeChange.length = 0;
+  removeAllListeners = async (eventType?: ListenerType): Promise<void> => {
+    if (
+      eventType !== undefined &&
+      !Object.keys(activeSubscriptions).includes(eventType)
+    ) {
+      throw new ValidationError(
+        `Invalid listener type: ${eventType}`,
+        "eventType",
+      );
+    }
+
+    const types: ListenerType[] = eventType
+      ? [eventType]
+      : ["mediaControl", "volumeChange", "stateChange", "progress"];
+
+    types.forEach((type) => {
+      [...activeSubscriptions[type]].forEach((subscription) =>
+        subscription.remove(),
+      );
+    });
   };
 
   // =============================================
@@ -740,14 +2033,113 @@ class ExtendedExpoMediaControlModule {
    * Internal method to dispatch media control events
    * This will be called by the native modules when control events occur
    */
-  _dispatchMediaControlEvent = (event: MediaControlEvent): void => {
-    console.log("📱 JS: Dispatching media control event:", event);
+  _dispatchMediaControlEvent = (rawEvent: any): void => {
+    log.debug("Dispatching media control event", { data: rawEvent });
+
+    const normalizedEvent = normalizeMediaControlEvent(rawEvent);
+    if (!normalizedEvent) {
+      log.warn("Ignoring malformed media control event", { data: rawEvent });
+      return;
+    }
+
+    // Snapshot the chain so middleware added or removed mid-dispatch applies to the next event
+    this._runMiddleware(normalizedEvent, [...middlewares], 0);
+  };
+
+  /**
+   * Run an event through the middleware chain starting at index
+   * Events leaving the end of the chain are delivered to listeners
+   */
+  private _runMiddleware = (
+    event: MediaControlEvent,
+    chain: MediaControlMiddleware[],
+    index: number,
+  ): void => {
+    if (index >= chain.length) {
+      this._deliverMediaControlEvent(event);
+      return;
+    }
 
-    eventListeners.mediaControl.forEach((listener) => {
+    const next: MediaControlEventNext = (nextEvent) => {
+      if (
+        !nextEvent ||
+        !Object.values(Command).includes(nextEvent.command as Command)
+      ) {
+        log.warn("Ignoring invalid event passed by middleware", {
+          data: nextEvent,
+        });
+        return;
+      }
+      this._runMiddleware(nextEvent, chain, index + 1);
+    };
+
+    try {
+      const result = chain[index](event, next);
+      if (result instanceof Promise) {
+        result.catch((error) => {
+          log.error("Error in media control middleware", { error });
+        });
+      }
+    } catch (error) {
+      log.error("Error in media control middleware", { error });
+    }
+  };
+
+  /**
+   * Apply queue transitions and call every media control event listener
+   * Runs after middleware, so a remapped NEXT_TRACK does not advance the queue.
+   * Queue transitions are delivered once the queue has moved; events arriving
+   * meanwhile wait behind them so listeners see events in arrival order.
+   */
+  private _deliverMediaControlEvent = (event: MediaControlEvent): void => {
+    if (!pendingQueueDelivery && !isQueueTransition(event)) {
+      this._dispatchToListeners(event);
+      return;
+    }
+
+    const delivery = (pendingQueueDelivery ?? Promise.resolve())
+      .then(() =>
+        isQueueTransition(event) ? this._applyQueueTransition(event) : event,
+      )
+      .then(this._dispatchToListeners)
+      .catch((error) => {
+        log.error("Failed to deliver media control event", { error });
+      });
+    pendingQueueDelivery = delivery;
+    delivery.then(() => {
+      if (pendingQueueDelivery === delivery) {
+        pendingQueueDelivery = null;
+      }
+    });
+  };
+
+  /**
+   * Call every listener for an event
+   * Events no listener receives are buffered for the first one registered.
+   */
+  private _dispatchToListeners = (deliveredEvent: MediaControlEvent): void => {
+    const listeners = eventListeners.mediaControl.filter(
+      ({ command }) => !command || command === deliveredEvent.command,
+    );
+    if (listeners.length === 0) {
+      if (eventBuffer.options.enabled) {
+        pruneEventBuffer();
+        eventBuffer.events.push({
+          event: deliveredEvent,
+          receivedAt: Date.now(),
+        });
+        eventBuffer.events = eventBuffer.events.slice(
+          -eventBuffer.options.maxSize,
+        );
+      }
+      return;
+    }
+
+    listeners.forEach(({ listener }) => {
       try {
-        listener(event);
+        listener(deliveredEvent);
       } catch (error) {
-        console.error("Error in media control event listener:", error);
+        log.error("Error in media control event listener", { error });
       }
     });
   };
@@ -756,16 +2148,57 @@ class ExtendedExpoMediaControlModule {
    * Internal method to dispatch volume change events
    * This will be called by the native modules when volume changes
    */
-  _dispatchVolumeChangeEvent = (change: VolumeChange): void => {
+  _dispatchVolumeChangeEvent = (rawChange: any): void => {
+    const change = normalizeVolumeChange(rawChange);
+    if (!change) {
+      log.warn("Ignoring malformed volume change event", { data: rawChange });
+      return;
+    }
+
     eventListeners.volumeChange.forEach((listener) => {
       try {
         listener(change);
       } catch (error) {
-        console.error("Error in volume change event listener:", error);
+        log.error("Error in volume change event listener", { error });
       }
     });
   };
 }
 
+/**
+ * Replace the native module and reset all JS-side state
+ * Internal: used by `expo-media-control/testing` to install an in-memory fake.
+ * Pass null to go back to the real native module.
+ */
+export function _setNativeModuleForTesting(
+  module: ExpoMediaControlNativeModule | null,
+): void {
+  // Release subscriptions on the outgoing module before switching
+  Object.values(activeSubscriptions).forEach((subscriptions) =>
+    [...subscriptions].forEach((subscription) => subscription.remove()),
+  );
+  sessionSubscription?.();
+  sessionSubscription = null;
+  nativeSubscriptions.clear();
+  nativeModule = module;
+
+  eventListeners.mediaControl.length = 0;
+  eventListeners.volumeChange.length = 0;
+  eventListeners.stateChange.length = 0;
+  eventListeners.snapshot.length = 0;
+  middlewares.length = 0;
+  Object.assign(stateMachineOptions, DEFAULT_STATE_MACHINE_OPTIONS);
+  validationOptions.mode = "strict";
+  enableGuardOptions = { ...DEFAULT_ENABLE_GUARD_OPTIONS };
+  pendingAutoEnable = null;
+  eventBuffer.options = { ...DEFAULT_EVENT_BUFFER_OPTIONS };
+  eventBuffer.events = [];
+  _resetQueueForTesting();
+  pendingQueueDelivery = null;
+  controlOptions = null;
+  sessionSnapshot = INITIAL_SNAPSHOT;
+  snapshotVersion = 0;
+}
+
 // Export the extended module instance
 export default new ExtendedExpoMediaControlModule();
@@ -0,0 +1,153 @@
+import ExpoMediaControlModule, {
+  Command,
+  MediaControlEvent,
+  MediaControlEventDataMap,
+  MediaControlEventNext,
+  MediaControlMiddleware,
+  ValidationError,
+} from "./ExpoMediaControlModule";
+
+// =============================================
+// TYPE DEFINITIONS
+// =============================================
+
+/**
+ * Commands a gesture can be mapped to (those that carry no required payload)
+ */
+export type HeadsetGestureCommand = {
+  [K in Command]: undefined extends MediaControlEventDataMap[K] ? K : never;
+}[Command];
+
+/**
+ * Options for the headset multi-press recognizer
+ */
+export interface HeadsetGestureOptions {
+  /** Max time in ms between presses of the same gesture (default: 400) */
+  pressTimeout?: number;
+  /**
+   * Raw commands counted as a button press (default: [TOGGLE_PLAY_PAUSE])
+   * Add PLAY and PAUSE when the toggle capability is not enabled, at the cost of
+   * delaying every play/pause by pressTimeout
+   */
+  pressCommands?: Command[];
+  /** Command sent for a single press, or null to ignore it (default: TOGGLE_PLAY_PAUSE) */
+  singlePress?: HeadsetGestureCommand | null;
+  /** Command sent for a double press, or null to ignore it (default: NEXT_TRACK) */
+  doublePress?: HeadsetGestureCommand | null;
+  /** Command sent for a triple press, or null to ignore it (default: PREVIOUS_TRACK) */
+  triplePress?: HeadsetGestureCommand | null;
+}
+
+// =============================================
+// RECOGNIZER
+// =============================================
+
+/**
+ * Default time window between presses, close to the platform double-tap timeouts
+ */
+const DEFAULT_PRESS_TIMEOUT = 400;
+
+/**
+ * Install a recognizer that turns rapid headset button presses into gestures
+ *
+ * Presses are counted until none arrives for pressTimeout, then a single event is
+ * sent on: by default single press toggles playback, double press skips to the next
+ * track and triple press goes to the previous track. Enable `Command.TOGGLE_PLAY_PAUSE`
+ * in the capabilities so headset presses arrive as toggles on both platforms.
+ * @param options Timing, recognized commands and gesture mapping
+ * @returns Function to remove the recognizer
+ * @example
+ * ```typescript
+ * await MediaControl.enableMediaControls({
+ *   capabilities: [Command.PLAY, Command.PAUSE, Command.TOGGLE_PLAY_PAUSE, Command.NEXT_TRACK],
+ * });
+ * const removeGestures = enableHeadsetGestures({ triplePress: null });
+ * ```
+ */
+export function enableHeadsetGestures(
+  options: HeadsetGestureOptions = {},
+): () => void {
+  const {
+    pressTimeout = DEFAULT_PRESS_TIMEOUT,
+    pressCommands = [Command.TOGGLE_PLAY_PAUSE],
+  } = options;
+
+  if (
+    typeof pressTimeout !== "number" ||
+    !isFinite(pressTimeout) ||
+    pressTimeout <= 0
+  ) {
+    throw new ValidationError(
+      "pressTimeout must be a positive number",
+      "pressTimeout",
+    );
+  }
+
+  const gestures: (HeadsetGestureCommand | null)[] = [
+    options.singlePress === undefined
+      ? Command.TOGGLE_PLAY_PAUSE
+      : options.singlePress,
+    options.doublePress === undefined
+      ? Command.NEXT_TRACK
+      : options.doublePress,
+    options.triplePress === undefined
+      ? Command.PREVIOUS_TRACK
+      : options.triplePress,
+  ];
+
+  let pressCount = 0;
+  let firstPress: MediaControlEvent | null = null;
+  let pendingNext: MediaControlEventNext | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const reset = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    pressCount = 0;
+    firstPress = null;
+    pendingNext = null;
+    timer = null;
+  };
+
+  const recognize = () => {
+    const command = gestures[Math.min(pressCount, gestures.length) - 1];
+    const timestamp = firstPress?.timestamp ?? Date.now();
+    const next = pendingNext;
+    reset();
+
+    if (command && next) {
+      next({ command, data: undefined, timestamp } as MediaControlEvent);
+    }
+  };
+
+  const middleware: MediaControlMiddleware = (event, next) => {
+    if (!pressCommands.includes(event.command)) {
+      next(event);
+      return;
+    }
+
+    if (timer) {
+      clearTimeout(timer);
+    }
+    pressCount += 1;
+    firstPress = firstPress ?? event;
+    pendingNext = next;
+
+    // Nothing longer is recognized, so don't wait for more presses
+    if (pressCount >= gestures.length) {
+      recognize();
+    } else {
+      timer = setTimeout(recognize, pressTimeout);
+    }
+  };
+
+  // eslint-disable-next-line react-hooks/rules-of-hooks -- middleware registration, not a React hook
+  const middlewareSubscription = ExpoMediaControlModule.use(middleware);
+
+  // Return removal function, dropping any press still being counted
+  return () => {
+    reset();
+    middlewareSubscription.remove();
+  };
+}
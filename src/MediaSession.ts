@@ -0,0 +1,327 @@
+import ExpoMediaControlModule, {
+  Command,
+  CommandListener,
+  estimatePosition,
+  EventSubscription,
+  MediaControlOptions,
+  MediaControlSnapshot,
+  MediaMetadata,
+  NotEnabledError,
+  PlaybackState,
+} from "./ExpoMediaControlModule";
+import { getDefaultPlaybackRate } from "./StateMachine";
+import {
+  checkMetadata,
+  validatePlaybackRate,
+  validatePlaybackState,
+  validatePosition,
+} from "./validation";
+
+// =============================================
+// TYPE DEFINITIONS
+// =============================================
+
+/**
+ * A session's view of the system media controls
+ */
+export interface MediaSessionSnapshot
+  extends Omit<MediaControlSnapshot, "isEnabled"> {
+  /** Whether this session currently owns the system controls */
+  isActive: boolean;
+  /** Whether release() has been called */
+  isReleased: boolean;
+}
+
+/**
+ * Handle to the system media controls owned by one part of an app
+ *
+ * Only one session is active at a time: the most recently created one that has
+ * not been released. Updates made by an inactive session are kept and shown
+ * once it becomes active again, and its command listeners are not called.
+ */
+export interface MediaSession {
+  /** Replace the metadata shown for this session */
+  setMetadata(metadata: MediaMetadata): Promise<void>;
+  /** Update this session's playback state, position and rate */
+  setState(
+    state: PlaybackState,
+    position?: number,
+    playbackRate?: number,
+  ): Promise<void>;
+  /** Listen for a remote command while this session is active */
+  on<C extends Command>(
+    command: C,
+    listener: CommandListener<C>,
+  ): EventSubscription;
+  /** Get this session's metadata and playback state */
+  getSnapshot(): MediaSessionSnapshot;
+  /** Whether this session currently owns the system controls */
+  isActive(): boolean;
+  /**
+   * Give up the system controls and remove this session's listeners
+   * The previous session becomes active again, or controls are disabled when
+   * no session is left
+   */
+  release(): Promise<void>;
+}
+
+/**
+ * Internal state of a session
+ */
+interface SessionRecord {
+  options?: MediaControlOptions;
+  snapshot: Omit<MediaControlSnapshot, "isEnabled">;
+  subscriptions: Set<EventSubscription>;
+  released: boolean;
+}
+
+// =============================================
+// SESSION STACK
+// =============================================
+
+/**
+ * Live sessions, the active one last
+ */
+const sessions: SessionRecord[] = [];
+
+/**
+ * Chain serializing session operations, so activation changes never
+ * interleave with updates
+ */
+let operationChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a session operation after every operation queued before it
+ */
+function serialize<T>(operation: () => Promise<T>): Promise<T> {
+  const result = operationChain.then(operation);
+  operationChain = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Current system controls state, as stored on a session
+ */
+function getSystemSnapshot(): SessionRecord["snapshot"] {
+  const {
+    metadata,
+    state,
+    position,
+    playbackRate,
+    positionUpdatedAt,
+    shuffleMode,
+    repeatMode,
+    feedback,
+  } = ExpoMediaControlModule.getSnapshot();
+  return {
+    metadata,
+    state,
+    position,
+    playbackRate,
+    positionUpdatedAt,
+    shuffleMode,
+    repeatMode,
+    feedback,
+  };
+}
+
+function isActiveRecord(record: SessionRecord): boolean {
+  return sessions[sessions.length - 1] === record;
+}
+
+/**
+ * Show a session's options, metadata, state, modes and feedback on the system controls
+ * A playing session resumes from its extrapolated position
+ */
+async function activate(record: SessionRecord): Promise<void> {
+  await ExpoMediaControlModule.enableMediaControls(record.options);
+  await ExpoMediaControlModule.resetControls();
+
+  const { metadata, state, playbackRate, shuffleMode, repeatMode, feedback } =
+    record.snapshot;
+  if (metadata) {
+    await ExpoMediaControlModule.updateMetadata(metadata);
+  }
+  if (state !== PlaybackState.NONE) {
+    await ExpoMediaControlModule.updatePlaybackState(
+      state,
+      estimatePosition(record.snapshot),
+      playbackRate,
+    );
+  }
+  if (shuffleMode !== "off") {
+    await ExpoMediaControlModule.setShuffleMode(shuffleMode);
+  }
+  if (repeatMode !== "off") {
+    await ExpoMediaControlModule.setRepeatMode(repeatMode);
+  }
+  if (feedback.liked || feedback.disliked || feedback.bookmarked) {
+    await ExpoMediaControlModule.setFeedbackState(feedback);
+  }
+}
+
+/**
+ * Create a media session and make it the active one
+ *
+ * Use sessions instead of the singleton functions when several libraries share
+ * the system controls: each holds its own handle, and releasing it hands the
+ * controls back to the previous session.
+ * @param options Options used to enable media controls while this session is active
+ * @returns Handle to the new session
+ * @example
+ * ```typescript
+ * const session = await MediaControl.createSession({
+ *   capabilities: [Command.PLAY, Command.PAUSE],
+ * });
+ * session.on(Command.PLAY, () => player.play());
+ * await session.setMetadata({ title: 'Episode 12' });
+ * await session.setState(PlaybackState.PLAYING, 0);
+ *
+ * // later
+ * await session.release();
+ * ```
+ */
+export function createSession(
+  options?: MediaControlOptions,
+): Promise<MediaSession> {
+  return serialize(async () => {
+    const record: SessionRecord = {
+      options,
+      snapshot: {
+        metadata: null,
+        state: PlaybackState.NONE,
+        position: 0,
+        playbackRate: 0,
+        positionUpdatedAt: Date.now(),
+        shuffleMode: "off",
+        repeatMode: "off",
+        feedback: { liked: false, disliked: false, bookmarked: false },
+      },
+      subscriptions: new Set(),
+      released: false,
+    };
+
+    // Keep what the outgoing session showed, to restore it when it is active again
+    const previous = sessions[sessions.length - 1];
+    if (previous) {
+      previous.snapshot = getSystemSnapshot();
+    }
+
+    await activate(record);
+    sessions.push(record);
+
+    return createSessionHandle(record);
+  });
+}
+
+/**
+ * Build the public handle for a session record
+ */
+function createSessionHandle(record: SessionRecord): MediaSession {
+  const assertLive = () => {
+    if (record.released) {
+      throw new NotEnabledError("Media session has been released");
+    }
+  };
+
+  return {
+    setMetadata: (metadata) =>
+      serialize(async () => {
+        assertLive();
+        if (isActiveRecord(record)) {
+          await ExpoMediaControlModule.updateMetadata(metadata);
+        } else {
+          // Checked now, so bad values cannot fail activate() on a later release
+          metadata = checkMetadata(metadata);
+        }
+        record.snapshot = { ...record.snapshot, metadata };
+      }),
+
+    setState: (state, position, playbackRate) =>
+      serialize(async () => {
+        assertLive();
+        if (isActiveRecord(record)) {
+          await ExpoMediaControlModule.updatePlaybackState(
+            state,
+            position,
+            playbackRate,
+          );
+          record.snapshot = getSystemSnapshot();
+        } else {
+          validatePlaybackState(state);
+          if (position !== undefined) {
+            validatePosition(position);
+          }
+          if (playbackRate !== undefined) {
+            validatePlaybackRate(playbackRate);
+          }
+          record.snapshot = {
+            ...record.snapshot,
+            state,
+            position: position ?? estimatePosition(record.snapshot),
+            playbackRate: playbackRate ?? getDefaultPlaybackRate(state),
+            positionUpdatedAt: Date.now(),
+          };
+        }
+      }),
+
+    on: (command, listener) => {
+      assertLive();
+      const subscription = ExpoMediaControlModule.on(command, (event) => {
+        if (isActiveRecord(record)) {
+          listener(event);
+        }
+      });
+      record.subscriptions.add(subscription);
+      return subscription;
+    },
+
+    getSnapshot: () => {
+      if (isActiveRecord(record)) {
+        return { ...getSystemSnapshot(), isActive: true, isReleased: false };
+      }
+      return {
+        ...record.snapshot,
+        isActive: false,
+        isReleased: record.released,
+      };
+    },
+
+    isActive: () => isActiveRecord(record),
+
+    release: () =>
+      serialize(async () => {
+        if (record.released) {
+          return;
+        }
+        const wasActive = isActiveRecord(record);
+        if (wasActive) {
+          record.snapshot = getSystemSnapshot();
+        }
+
+        record.released = true;
+        record.subscriptions.forEach((subscription) => subscription.remove());
+        record.subscriptions.clear();
+        sessions.splice(sessions.indexOf(record), 1);
+
+        if (!wasActive) {
+          return;
+        }
+        const previous = sessions[sessions.length - 1];
+        if (previous) {
+          await activate(previous);
+        } else {
+          await ExpoMediaControlModule.disableMediaControls();
+        }
+      }),
+  };
+}
+
+/**
+ * Forget all sessions
+ * Internal: used by `expo-media-control/testing` when resetting JS-side state
+ */
+export function _resetSessionsForTesting(): void {
+  sessions.length = 0;
+  operationChain = Promise.resolve();
+}
@@ -0,0 +1,232 @@
+import ExpoMediaControlModule, {
+  Command,
+  MediaControlEvent,
+  NotEnabledError,
+  PlaybackState,
+} from "./ExpoMediaControlModule";
+import { log } from "./logger";
+
+// =============================================
+// TYPE DEFINITIONS
+// =============================================
+
+/**
+ * Player status as reported by a player adapter
+ */
+export interface PlayerStatus {
+  /** Whether the player is currently playing (or trying to) */
+  playing: boolean;
+  /** Whether the player is waiting for data */
+  buffering: boolean;
+  /** Current position in seconds */
+  position: number;
+  /** Duration in seconds, when known */
+  duration?: number;
+  /** Current playback rate (1.0 = normal speed) */
+  rate: number;
+  /** Whether playback reached the end of the media */
+  ended?: boolean;
+  /** Whether the player failed */
+  error?: boolean;
+}
+
+export type PlayerStatusListener = (status: PlayerStatus) => void;
+
+/**
+ * Minimal player interface that bindPlayer drives
+ * Implement it to connect any player library to system media controls
+ */
+export interface PlayerAdapter {
+  play(): void | Promise<void>;
+  pause(): void | Promise<void>;
+  /** Seek to a position in seconds */
+  seekTo(position: number): void | Promise<void>;
+  /** Stop playback (defaults to pause and seek to 0 when omitted) */
+  stop?(): void | Promise<void>;
+  /** Change the playback rate (CHANGE_PLAYBACK_RATE is ignored when omitted) */
+  setRate?(rate: number): void | Promise<void>;
+  getStatus(): PlayerStatus;
+  /**
+   * Subscribe to status changes
+   * @returns Function to remove the listener
+   */
+  onStatusChange(listener: PlayerStatusListener): () => void;
+}
+
+/**
+ * Options for bindPlayer
+ */
+export interface BindPlayerOptions {
+  /** Called on NEXT_TRACK, e.g. to load the queue's target item */
+  onNextTrack?: (event: MediaControlEvent<Command.NEXT_TRACK>) => void;
+  /** Called on PREVIOUS_TRACK */
+  onPreviousTrack?: (event: MediaControlEvent<Command.PREVIOUS_TRACK>) => void;
+  /** Drift in seconds tolerated before a position is pushed to native (default: 1) */
+  positionDriftThreshold?: number;
+  /** Publish the player's duration into the current metadata (default: true) */
+  syncDuration?: boolean;
+}
+
+// =============================================
+// STATE MAPPING
+// =============================================
+
+/**
+ * Derive the playback state shown in system controls from a player status
+ * Buffering wins over playing, so a stalled stream never shows a moving scrubber
+ */
+export function getPlaybackStateForStatus(status: PlayerStatus): PlaybackState {
+  if (status.error) {
+    return PlaybackState.ERROR;
+  }
+  if (status.buffering) {
+    return PlaybackState.BUFFERING;
+  }
+  if (status.playing) {
+    return PlaybackState.PLAYING;
+  }
+  if (status.ended) {
+    return PlaybackState.STOPPED;
+  }
+  return PlaybackState.PAUSED;
+}
+
+// =============================================
+// BINDING
+// =============================================
+
+/**
+ * Wire a player to system media controls
+ *
+ * Remote play, pause, toggle, stop, seek, skip and playback rate commands are forwarded to the player,
+ * and player status changes are pushed back via updatePlaybackState. Position-only
+ * changes go through syncPlaybackPosition, so the bridge is only used on drift.
+ * @param adapter The player to control
+ * @param options Track navigation callbacks and sync settings
+ * @returns Function to unbind the player
+ */
+export function bindPlayer(
+  adapter: PlayerAdapter,
+  options: BindPlayerOptions = {},
+): () => void {
+  const { positionDriftThreshold, syncDuration = true } = options;
+
+  let lastState: PlaybackState | null = null;
+  let lastRate: number | null = null;
+
+  // Player actions and status pushes run one at a time, in order, so an
+  // older status can never reach native after a newer one
+  let operationChain: Promise<void> = Promise.resolve();
+
+  const run = (action: string, fn: () => void | Promise<void>) => {
+    operationChain = operationChain.then(fn).catch((error) => {
+      if (error instanceof NotEnabledError) {
+        // Push the full state again once controls are enabled
+        lastState = null;
+        lastRate = null;
+        log.debug(`Skipped ${action}: media controls are not enabled`, {
+          operation: "bindPlayer",
+        });
+        return;
+      }
+      log.error(`Failed to ${action}`, { operation: "bindPlayer", error });
+    });
+  };
+
+  const seekBy = (offset: number): void | Promise<void> => {
+    const { position, duration } = adapter.getStatus();
+    const target = Math.max(0, position + offset);
+    return adapter.seekTo(
+      duration !== undefined ? Math.min(target, duration) : target,
+    );
+  };
+
+  const pushStatus = (status: PlayerStatus) => {
+    const state = getPlaybackStateForStatus(status);
+    const rate = state === PlaybackState.PLAYING ? status.rate : 0;
+
+    if (state !== lastState || rate !== lastRate) {
+      lastState = state;
+      lastRate = rate;
+      run("update playback state", () =>
+        ExpoMediaControlModule.updatePlaybackState(
+          state,
+          Math.max(0, status.position),
+          rate,
+        ),
+      );
+    } else {
+      run("sync playback position", async () => {
+        await ExpoMediaControlModule.syncPlaybackPosition(
+          Math.max(0, status.position),
+          positionDriftThreshold,
+        );
+      });
+    }
+
+    const { metadata } = ExpoMediaControlModule.getSnapshot();
+    if (
+      syncDuration &&
+      metadata &&
+      status.duration !== undefined &&
+      isFinite(status.duration) &&
+      status.duration > 0 &&
+      metadata.duration !== status.duration
+    ) {
+      run("sync duration", () =>
+        ExpoMediaControlModule.patchMetadata({ duration: status.duration }),
+      );
+    }
+  };
+
+  const removers = [
+    ExpoMediaControlModule.on(Command.PLAY, () =>
+      run("play", () => adapter.play()),
+    ),
+    ExpoMediaControlModule.on(Command.PAUSE, () =>
+      run("pause", () => adapter.pause()),
+    ),
+    ExpoMediaControlModule.on(Command.TOGGLE_PLAY_PAUSE, () =>
+      run("toggle playback", () =>
+        adapter.getStatus().playing ? adapter.pause() : adapter.play(),
+      ),
+    ),
+    ExpoMediaControlModule.on(Command.STOP, () =>
+      run("stop", async () => {
+        if (adapter.stop) {
+          await adapter.stop();
+        } else {
+          await adapter.pause();
+          await adapter.seekTo(0);
+        }
+      }),
+    ),
+    ExpoMediaControlModule.on(Command.SEEK, (event) =>
+      run("seek", () => adapter.seekTo(event.data.position)),
+    ),
+    ExpoMediaControlModule.on(Command.SKIP_FORWARD, (event) =>
+      run("skip forward", () => seekBy(event.data.interval)),
+    ),
+    ExpoMediaControlModule.on(Command.SKIP_BACKWARD, (event) =>
+      run("skip backward", () => seekBy(-event.data.interval)),
+    ),
+    ExpoMediaControlModule.on(Command.CHANGE_PLAYBACK_RATE, (event) =>
+      run("change playback rate", () => adapter.setRate?.(event.data.rate)),
+    ),
+    ExpoMediaControlModule.on(Command.NEXT_TRACK, (event) =>
+      options.onNextTrack?.(event),
+    ),
+    ExpoMediaControlModule.on(Command.PREVIOUS_TRACK, (event) =>
+      options.onPreviousTrack?.(event),
+    ),
+    adapter.onStatusChange(pushStatus),
+  ];
+
+  // Publish the player's current status right away
+  pushStatus(adapter.getStatus());
+
+  // Return unbind function
+  return () => {
+    removers.forEach((remove) => remove());
+  };
+}
@@ -0,0 +1,243 @@
+import { ValidationError } from "./errors";
+import {
+  Command,
+  MediaArtwork,
+  MediaControlEvent,
+  NativeQueueItem,
+  QueueItem,
+} from "./types";
+import { checkQueueItems } from "./validation";
+
+// =============================================
+// QUEUE STATE
+// =============================================
+
+/**
+ * Playback queue managed by the module
+ * activeIndex is -1 when the queue is empty or nothing is active
+ */
+export const queueState: { items: QueueItem[]; activeIndex: number } = {
+  items: [],
+  activeIndex: -1,
+};
+
+/**
+ * Chain serializing queue operations, so a failed one only rolls back its own edits
+ */
+let queueOperationChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a queue operation after every queue operation queued before it
+ */
+export function serializeQueueOperation<T>(
+  operation: () => Promise<T>,
+): Promise<T> {
+  const result = queueOperationChain.then(operation);
+  queueOperationChain = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Empty the queue
+ */
+export function resetQueue(): void {
+  queueState.items = [];
+  queueState.activeIndex = -1;
+}
+
+/**
+ * Empty the queue and forget queued operations
+ * Internal: used by `_setNativeModuleForTesting`.
+ */
+export function _resetQueueForTesting(): void {
+  resetQueue();
+  queueOperationChain = Promise.resolve();
+}
+
+/**
+ * Get the active queue item, or null when the queue is empty
+ */
+export function getActiveQueueItem(): QueueItem | null {
+  return queueState.items[queueState.activeIndex] ?? null;
+}
+
+/**
+ * Find a queue item's index, throwing when it does not exist
+ */
+function getQueueIndex(id: string): number {
+  const index = queueState.items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    throw new ValidationError(`No queue item with id: ${id}`, "id");
+  }
+  return index;
+}
+
+/**
+ * Convert a queue item into the slim shape sent to native
+ */
+export function toNativeQueueItem(item: QueueItem): NativeQueueItem {
+  const { title, artist, album, artwork } = item.metadata;
+  const nativeItem: NativeQueueItem = { id: item.id };
+
+  // Omit undefined values to prevent native conversion errors
+  if (title !== undefined) nativeItem.title = title;
+  if (artist !== undefined) nativeItem.artist = artist;
+  if (album !== undefined) nativeItem.album = album;
+  // Artwork was resolved when the item was checked
+  if (artwork !== undefined) {
+    nativeItem.artworkUri = (artwork as MediaArtwork).uri;
+  }
+  return nativeItem;
+}
+
+// =============================================
+// QUEUE EDITS
+// Each one validates its input before touching queueState and returns
+// whether the active item changed
+// =============================================
+
+/**
+ * Replace the queue, making activeId (or the first item) active
+ */
+export function setQueueItems(items: QueueItem[], activeId?: string): boolean {
+  const checkedItems = checkQueueItems(items);
+
+  let activeIndex = checkedItems.length > 0 ? 0 : -1;
+  if (activeId !== undefined) {
+    activeIndex = checkedItems.findIndex((item) => item.id === activeId);
+    if (activeIndex === -1) {
+      throw new ValidationError(
+        `No queue item with id: ${activeId}`,
+        "activeId",
+      );
+    }
+  }
+
+  queueState.items = [...checkedItems];
+  queueState.activeIndex = activeIndex;
+  return true;
+}
+
+/**
+ * Insert items at index (defaults to the end of the queue)
+ */
+export function insertQueueItems(
+  items: QueueItem | QueueItem[],
+  index?: number,
+): boolean {
+  const newItems = checkQueueItems(
+    Array.isArray(items) ? items : [items],
+    queueState.items.map((item) => item.id),
+  );
+
+  const insertAt = index ?? queueState.items.length;
+  if (
+    !Number.isInteger(insertAt) ||
+    insertAt < 0 ||
+    insertAt > queueState.items.length
+  ) {
+    throw new ValidationError(
+      `index must be an integer between 0 and ${queueState.items.length}`,
+      "index",
+    );
+  }
+
+  const wasEmpty = queueState.activeIndex === -1;
+  queueState.items.splice(insertAt, 0, ...newItems);
+  if (wasEmpty) {
+    queueState.activeIndex = queueState.items.length > 0 ? 0 : -1;
+  } else if (insertAt <= queueState.activeIndex) {
+    queueState.activeIndex += newItems.length;
+  }
+  return wasEmpty;
+}
+
+/**
+ * Remove an item; removing the active item activates the one taking its place
+ */
+export function removeQueueItem(id: string): boolean {
+  const index = getQueueIndex(id);
+  const removedActive = index === queueState.activeIndex;
+
+  queueState.items.splice(index, 1);
+  if (index < queueState.activeIndex) {
+    queueState.activeIndex -= 1;
+  } else if (removedActive) {
+    queueState.activeIndex = Math.min(index, queueState.items.length - 1);
+  }
+  return removedActive;
+}
+
+/**
+ * Move an item to toIndex, keeping the same item active
+ */
+export function moveQueueItemTo(id: string, toIndex: number): boolean {
+  const fromIndex = getQueueIndex(id);
+  if (
+    !Number.isInteger(toIndex) ||
+    toIndex < 0 ||
+    toIndex >= queueState.items.length
+  ) {
+    throw new ValidationError(
+      `toIndex must be an integer between 0 and ${queueState.items.length - 1}`,
+      "toIndex",
+    );
+  }
+
+  const activeItem = getActiveQueueItem();
+  const [item] = queueState.items.splice(fromIndex, 1);
+  queueState.items.splice(toIndex, 0, item);
+  queueState.activeIndex = activeItem
+    ? queueState.items.indexOf(activeItem)
+    : -1;
+  return false;
+}
+
+/**
+ * Make an item active
+ */
+export function activateQueueItem(id: string): boolean {
+  queueState.activeIndex = getQueueIndex(id);
+  return true;
+}
+
+/**
+ * Remove every item
+ */
+export function clearQueueItems(): boolean {
+  resetQueue();
+  return false;
+}
+
+// =============================================
+// QUEUE TRANSITIONS
+// =============================================
+
+/**
+ * Whether an event moves the queue: a track navigation command while a queue is set
+ */
+export function isQueueTransition(event: MediaControlEvent): boolean {
+  return (
+    queueState.items.length > 0 &&
+    (event.command === Command.NEXT_TRACK ||
+      event.command === Command.PREVIOUS_TRACK ||
+      event.command === Command.SKIP_TO_QUEUE_ITEM)
+  );
+}
+
+/**
+ * Index of the item a track navigation event moves to
+ * Out of range (e.g. next on the last item) when there is no such item
+ */
+export function getQueueTransitionIndex(event: MediaControlEvent): number {
+  if (event.command === Command.NEXT_TRACK) {
+    return queueState.activeIndex + 1;
+  }
+  if (event.command === Command.PREVIOUS_TRACK) {
+    return queueState.activeIndex - 1;
+  }
+  if (event.command === Command.SKIP_TO_QUEUE_ITEM) {
+    return queueState.items.findIndex((item) => item.id === event.data.id);
+  }
+  return -1;
+}
@@ -0,0 +1,139 @@
+import { ValidationError } from "./errors";
+import { log } from "./logger";
+import {
+  MediaControlSnapshot,
+  PlaybackState,
+  StateMachineOptions,
+} from "./types";
+
+// =============================================
+// PLAYBACK STATE MACHINE
+// =============================================
+
+/**
+ * Default playback state transition settings
+ */
+export const DEFAULT_STATE_MACHINE_OPTIONS: Required<StateMachineOptions> = {
+  validateTransitions: true,
+  strict: false,
+};
+
+/**
+ * Current playback state transition settings
+ */
+export const stateMachineOptions: Required<StateMachineOptions> = {
+  ...DEFAULT_STATE_MACHINE_OPTIONS,
+};
+
+/**
+ * States reachable from each playback state
+ * Staying in the same state (e.g. to update the position) is always allowed,
+ * and NONE can be reached from anywhere to clear the session
+ */
+const PLAYBACK_STATE_TRANSITIONS: Record<PlaybackState, PlaybackState[]> = {
+  [PlaybackState.NONE]: [
+    PlaybackState.STOPPED,
+    PlaybackState.PLAYING,
+    PlaybackState.PAUSED,
+    PlaybackState.BUFFERING,
+    PlaybackState.ERROR,
+  ],
+  [PlaybackState.STOPPED]: [
+    PlaybackState.NONE,
+    PlaybackState.PLAYING,
+    PlaybackState.PAUSED,
+    PlaybackState.BUFFERING,
+    PlaybackState.ERROR,
+  ],
+  [PlaybackState.PLAYING]: [
+    PlaybackState.NONE,
+    PlaybackState.STOPPED,
+    PlaybackState.PAUSED,
+    PlaybackState.BUFFERING,
+    PlaybackState.ERROR,
+  ],
+  [PlaybackState.PAUSED]: [
+    PlaybackState.NONE,
+    PlaybackState.STOPPED,
+    PlaybackState.PLAYING,
+    PlaybackState.BUFFERING,
+    PlaybackState.ERROR,
+  ],
+  [PlaybackState.BUFFERING]: [
+    PlaybackState.NONE,
+    PlaybackState.STOPPED,
+    PlaybackState.PLAYING,
+    PlaybackState.PAUSED,
+    PlaybackState.ERROR,
+  ],
+  // Recovering from an error means reloading the media first
+  [PlaybackState.ERROR]: [
+    PlaybackState.NONE,
+    PlaybackState.STOPPED,
+    PlaybackState.BUFFERING,
+  ],
+};
+
+/**
+ * Check whether a playback state transition is legal
+ * @param from The current state
+ * @param to The requested state
+ */
+export function isValidStateTransition(
+  from: PlaybackState,
+  to: PlaybackState,
+): boolean {
+  return from === to || PLAYBACK_STATE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Warn about, or reject in strict mode, an illegal playback state transition
+ */
+export function checkStateTransition(
+  from: PlaybackState,
+  to: PlaybackState,
+): void {
+  if (
+    !stateMachineOptions.validateTransitions ||
+    isValidStateTransition(from, to)
+  ) {
+    return;
+  }
+
+  const message = `Invalid playback state transition: ${PlaybackState[from]} → ${PlaybackState[to]}`;
+  if (stateMachineOptions.strict) {
+    throw new ValidationError(message, "state");
+  }
+  log.warn(message, { operation: "updatePlaybackState" });
+}
+
+/**
+ * Playback rate implied by a state when the caller does not pass one
+ * Only PLAYING advances the position; every other state reports rate 0
+ */
+export function getDefaultPlaybackRate(state: PlaybackState): number {
+  return state === PlaybackState.PLAYING ? 1.0 : 0.0;
+}
+
+/**
+ * Extrapolate a snapshot's position to now
+ * Advances by elapsed time × playback rate while playing, clamped to the track duration
+ */
+export function estimatePosition(
+  snapshot: Pick<
+    MediaControlSnapshot,
+    "state" | "position" | "playbackRate" | "positionUpdatedAt" | "metadata"
+  >,
+): number {
+  const { state, position, playbackRate, positionUpdatedAt, metadata } =
+    snapshot;
+  if (state !== PlaybackState.PLAYING) {
+    return position;
+  }
+
+  const elapsed = Math.max(0, (Date.now() - positionUpdatedAt) / 1000);
+  const estimated = position + elapsed * playbackRate;
+  return metadata?.duration !== undefined
+    ? Math.min(estimated, metadata.duration)
+    : estimated;
+}
@@ -0,0 +1,67 @@
+import MediaControl, { NativeError, ValidationError } from "..";
+import {
+  FakeExpoMediaControlModule,
+  installFakeNativeModule,
+} from "../testing";
+
+const COVER = "https://example.com/cover.png";
+
+describe("artwork cache", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(() => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+  });
+
+  it("serves prefetched artwork from the cache", async () => {
+    await MediaControl.prefetchArtwork(COVER);
+    await MediaControl.prefetchArtwork({ uri: COVER });
+
+    expect(fake.cachedArtwork.has(COVER)).toBe(true);
+    expect(await MediaControl.getArtworkCacheStats()).toEqual({
+      entries: 1,
+      bytes: 0,
+      hits: 1,
+      misses: 1,
+    });
+  });
+
+  it("normalizes absolute paths to file URLs", async () => {
+    await MediaControl.prefetchArtwork("/covers/my album.png");
+
+    expect(fake.cachedArtwork.has("file:///covers/my%20album.png")).toBe(true);
+  });
+
+  it("rejects unsupported schemes before calling native", async () => {
+    const error = await MediaControl.prefetchArtwork(
+      "ftp://example.com/cover.png",
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.field).toBe("artwork.uri");
+    expect(fake.calls).toEqual([]);
+  });
+
+  it("reports artwork that cannot be loaded", async () => {
+    fake.unavailableArtwork.add(COVER);
+
+    const error = await MediaControl.prefetchArtwork(COVER).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NativeError);
+    expect(error.code).toBe("PREFETCH_ARTWORK_FAILED");
+  });
+
+  it("empties the cache and resets the counts when cleared", async () => {
+    await MediaControl.prefetchArtwork(COVER);
+
+    await MediaControl.clearArtworkCache();
+
+    expect(await MediaControl.getArtworkCacheStats()).toEqual({
+      entries: 0,
+      bytes: 0,
+      hits: 0,
+      misses: 0,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import MediaControl, {
+  Command,
+  enableChapterMode,
+  getChapterAtPosition,
+  MediaControlEvent,
+  parseCueSheet,
+  PlaybackState,
+  ValidationError,
+} from "..";
+import { installFakeNativeModule, simulateRemoteCommand } from "../testing";
+
+const CUE_SHEET = `REM GENRE Electronic
+PERFORMER "DJ Example"
+TITLE "Live Mix"
+FILE "mix.flac" WAVE
+  TRACK 01 AUDIO
+    TITLE "Intro"
+    INDEX 01 00:00:00
+  TRACK 02 AUDIO
+    TITLE "Sunrise"
+    PERFORMER "Guest Artist"
+    INDEX 00 04:58:00
+    INDEX 01 05:00:00
+  TRACK 03 AUDIO
+    INDEX 01 10:30:00
+`;
+
+describe("parseCueSheet", () => {
+  it("turns each track into a chapter", () => {
+    expect(parseCueSheet(CUE_SHEET)).toEqual({
+      title: "Live Mix",
+      performer: "DJ Example",
+      file: "mix.flac",
+      chapters: [
+        { title: "Intro", startTime: 0, endTime: 300 },
+        { title: "Guest Artist - Sunrise", startTime: 300, endTime: 630 },
+        { title: "Track 03", startTime: 630 },
+      ],
+    });
+  });
+
+  it("converts frames to fractions of a second", () => {
+    const sheet = parseCueSheet("TRACK 01 AUDIO\nINDEX 01 01:02:15\n");
+
+    expect(sheet.chapters[0].startTime).toBeCloseTo(62.2);
+  });
+
+  it("rejects sheets describing several files", () => {
+    expect(() =>
+      parseCueSheet('FILE "a.flac" WAVE\nFILE "b.flac" WAVE\n'),
+    ).toThrow(ValidationError);
+  });
+
+  it("rejects malformed times", () => {
+    expect(() => parseCueSheet("TRACK 01 AUDIO\nINDEX 01 5:00\n")).toThrow(
+      'Invalid cue sheet time "5:00" on line 2',
+    );
+  });
+});
+
+describe("getChapterAtPosition", () => {
+  const chapters = [
+    { title: "Two", startTime: 60, endTime: 90 },
+    { title: "One", startTime: 0 },
+    { title: "Three", startTime: 120 },
+  ];
+
+  it("finds the chapter playing at a position", () => {
+    expect(getChapterAtPosition(chapters, 30)?.title).toBe("One");
+    expect(getChapterAtPosition(chapters, 75)?.title).toBe("Two");
+    expect(getChapterAtPosition(chapters, 500)?.title).toBe("Three");
+  });
+
+  it("counts positions just before a boundary as the next chapter", () => {
+    expect(getChapterAtPosition(chapters, 59.8)?.title).toBe("Two");
+  });
+
+  it("returns null in a gap after a chapter ends", () => {
+    expect(getChapterAtPosition(chapters, 100)).toBeNull();
+  });
+});
+
+describe("enableChapterMode", () => {
+  let disableChapterMode: () => void;
+
+  beforeEach(async () => {
+    installFakeNativeModule();
+    await MediaControl.enableMediaControls();
+    await MediaControl.updateMetadata({
+      title: "Audiobook",
+      chapters: [
+        { title: "Chapter 1", startTime: 0 },
+        { title: "Chapter 2", startTime: 600 },
+      ],
+    });
+    disableChapterMode = enableChapterMode();
+  });
+
+  afterEach(() => {
+    disableChapterMode();
+  });
+
+  it("turns next track into a seek to the next chapter", async () => {
+    await MediaControl.updatePlaybackState(PlaybackState.PAUSED, 120);
+    const events: MediaControlEvent[] = [];
+    MediaControl.addListener((event) => events.push(event));
+
+    simulateRemoteCommand(Command.NEXT_TRACK);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      command: Command.SEEK,
+      data: { position: 600 },
+    });
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => enableChapterMode({ updateInterval: 0 })).toThrow(
+      ValidationError,
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import MediaControl, {
+  Command,
+  enableHeadsetGestures,
+  MediaControlEvent,
+  ValidationError,
+} from "..";
+import { installFakeNativeModule, simulateRemoteCommand } from "../testing";
+
+describe("enableHeadsetGestures", () => {
+  let events: MediaControlEvent[];
+  let removeGestures: (() => void) | null;
+
+  const press = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      simulateRemoteCommand(Command.TOGGLE_PLAY_PAUSE);
+      jest.advanceTimersByTime(100);
+    }
+  };
+
+  const commands = () => events.map(({ command }) => command);
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    await MediaControl.enableMediaControls();
+    events = [];
+    MediaControl.addListener((event) => events.push(event));
+    removeGestures = null;
+  });
+
+  afterEach(() => {
+    removeGestures?.();
+    jest.useRealTimers();
+  });
+
+  it("sends a single press once the press window closes", () => {
+    removeGestures = enableHeadsetGestures();
+
+    press(1);
+    expect(events).toEqual([]);
+
+    jest.advanceTimersByTime(300);
+    expect(commands()).toEqual([Command.TOGGLE_PLAY_PAUSE]);
+  });
+
+  it("maps a double press to the next track", () => {
+    removeGestures = enableHeadsetGestures();
+
+    press(2);
+    jest.advanceTimersByTime(400);
+
+    expect(commands()).toEqual([Command.NEXT_TRACK]);
+  });
+
+  it("sends a triple press right away with the first press timestamp", () => {
+    removeGestures = enableHeadsetGestures();
+    const startedAt = Date.now();
+
+    press(3);
+
+    expect(commands()).toEqual([Command.PREVIOUS_TRACK]);
+    expect(events[0].timestamp).toBe(startedAt);
+  });
+
+  it("starts a new gesture after a triple press", () => {
+    removeGestures = enableHeadsetGestures();
+
+    press(4);
+    jest.advanceTimersByTime(400);
+
+    expect(commands()).toEqual([
+      Command.PREVIOUS_TRACK,
+      Command.TOGGLE_PLAY_PAUSE,
+    ]);
+  });
+
+  it("counts presses slower than pressTimeout as separate gestures", () => {
+    removeGestures = enableHeadsetGestures({ pressTimeout: 200 });
+
+    simulateRemoteCommand(Command.TOGGLE_PLAY_PAUSE);
+    jest.advanceTimersByTime(250);
+    simulateRemoteCommand(Command.TOGGLE_PLAY_PAUSE);
+    jest.advanceTimersByTime(250);
+
+    expect(commands()).toEqual([
+      Command.TOGGLE_PLAY_PAUSE,
+      Command.TOGGLE_PLAY_PAUSE,
+    ]);
+  });
+
+  it("uses the remapped and ignored gestures", () => {
+    removeGestures = enableHeadsetGestures({
+      singlePress: Command.PAUSE,
+      doublePress: null,
+    });
+
+    press(1);
+    jest.advanceTimersByTime(400);
+    press(2);
+    jest.advanceTimersByTime(400);
+
+    expect(commands()).toEqual([Command.PAUSE]);
+  });
+
+  it("passes other commands through without delay", () => {
+    removeGestures = enableHeadsetGestures();
+
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(commands()).toEqual([Command.PLAY]);
+  });
+
+  it("drops presses still being counted when removed", () => {
+    removeGestures = enableHeadsetGestures();
+
+    press(2);
+    removeGestures();
+    jest.advanceTimersByTime(400);
+    simulateRemoteCommand(Command.TOGGLE_PLAY_PAUSE);
+
+    expect(commands()).toEqual([Command.TOGGLE_PLAY_PAUSE]);
+  });
+
+  it("rejects an invalid pressTimeout", () => {
+    expect(() => enableHeadsetGestures({ pressTimeout: 0 })).toThrow(
+      ValidationError,
+    );
+  });
+});
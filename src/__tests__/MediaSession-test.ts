@@ -0,0 +1,109 @@
+import MediaControl, {
+  Command,
+  createSession,
+  NotEnabledError,
+  PlaybackState,
+  ValidationError,
+} from "..";
+import {
+  FakeExpoMediaControlModule,
+  getLastMetadata,
+  installFakeNativeModule,
+  simulateRemoteCommand,
+} from "../testing";
+
+describe("createSession", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(() => {
+    fake = installFakeNativeModule();
+  });
+
+  it("makes the newest session active", async () => {
+    const music = await createSession();
+    const podcast = await createSession({ capabilities: [Command.PLAY] });
+
+    expect(music.isActive()).toBe(false);
+    expect(podcast.isActive()).toBe(true);
+    expect(fake.enabled).toBe(true);
+    expect(fake.options).toEqual({ capabilities: [Command.PLAY] });
+  });
+
+  it("keeps updates from inactive sessions until they are active again", async () => {
+    const music = await createSession();
+    await music.setMetadata({ title: "Song" });
+    const podcast = await createSession();
+    await podcast.setMetadata({ title: "Episode" });
+
+    await music.setMetadata({ title: "Next song" });
+    await music.setState(PlaybackState.PAUSED, 42);
+
+    expect(getLastMetadata()).toEqual({ title: "Episode" });
+    expect(music.getSnapshot()).toMatchObject({
+      metadata: { title: "Next song" },
+      state: PlaybackState.PAUSED,
+      position: 42,
+      isActive: false,
+    });
+
+    await podcast.release();
+
+    expect(music.isActive()).toBe(true);
+    expect(getLastMetadata()).toEqual({ title: "Next song" });
+    expect(fake.state).toBe(PlaybackState.PAUSED);
+    expect(fake.position).toBe(42);
+  });
+
+  it("rejects invalid updates to an inactive session right away", async () => {
+    const music = await createSession();
+    await music.setMetadata({ title: "Song" });
+    const podcast = await createSession();
+
+    await expect(music.setMetadata({ title: 42 } as never)).rejects.toThrow(
+      ValidationError,
+    );
+    await expect(music.setState(99 as PlaybackState)).rejects.toThrow(
+      ValidationError,
+    );
+    await expect(music.setState(PlaybackState.PAUSED, -1)).rejects.toThrow(
+      ValidationError,
+    );
+    await expect(music.setState(PlaybackState.PLAYING, 0, -2)).rejects.toThrow(
+      ValidationError,
+    );
+
+    await podcast.release();
+
+    expect(getLastMetadata()).toEqual({ title: "Song" });
+  });
+
+  it("only calls listeners of the active session", async () => {
+    const music = await createSession();
+    const onMusicPlay = jest.fn();
+    music.on(Command.PLAY, onMusicPlay);
+    const podcast = await createSession();
+    const onPodcastPlay = jest.fn();
+    podcast.on(Command.PLAY, onPodcastPlay);
+
+    simulateRemoteCommand(Command.PLAY);
+    await podcast.release();
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(onPodcastPlay).toHaveBeenCalledTimes(1);
+    expect(onMusicPlay).toHaveBeenCalledTimes(1);
+  });
+
+  it("disables controls when the last session is released", async () => {
+    const session = await createSession();
+    await session.setMetadata({ title: "Song" });
+
+    await session.release();
+
+    expect(fake.enabled).toBe(false);
+    expect(MediaControl.getSnapshot().isEnabled).toBe(false);
+    expect(session.getSnapshot().isReleased).toBe(true);
+    await expect(session.setMetadata({ title: "Again" })).rejects.toThrow(
+      NotEnabledError,
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import MediaControl, {
+  bindPlayer,
+  Command,
+  PlaybackState,
+  PlayerAdapter,
+  PlayerStatus,
+  PlayerStatusListener,
+} from "..";
+import {
+  FakeExpoMediaControlModule,
+  getLastMetadata,
+  getLastPlaybackState,
+  installFakeNativeModule,
+  simulateRemoteCommand,
+} from "../testing";
+
+// Player actions and status pushes run on a promise chain
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Player double whose status the test drives
+ */
+function createPlayer(initial: Partial<PlayerStatus> = {}) {
+  let status: PlayerStatus = {
+    playing: false,
+    buffering: false,
+    position: 0,
+    duration: 200,
+    rate: 1,
+    ...initial,
+  };
+  const listeners = new Set<PlayerStatusListener>();
+
+  const adapter = {
+    play: jest.fn(),
+    pause: jest.fn(),
+    seekTo: jest.fn(),
+    setRate: jest.fn(),
+    getStatus: () => status,
+    onStatusChange: (listener: PlayerStatusListener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  } satisfies PlayerAdapter;
+
+  const setStatus = (changes: Partial<PlayerStatus>) => {
+    status = { ...status, ...changes };
+    listeners.forEach((listener) => listener(status));
+  };
+
+  return { adapter, setStatus, listeners };
+}
+
+describe("bindPlayer", () => {
+  let fake: FakeExpoMediaControlModule;
+  let unbind: (() => void) | null;
+
+  beforeEach(async () => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    await MediaControl.enableMediaControls();
+    await MediaControl.updateMetadata({ title: "Song" });
+    unbind = null;
+  });
+
+  afterEach(() => {
+    unbind?.();
+  });
+
+  it("forwards remote commands to the player", async () => {
+    const { adapter } = createPlayer();
+    unbind = bindPlayer(adapter);
+
+    simulateRemoteCommand(Command.PLAY);
+    simulateRemoteCommand(Command.PAUSE);
+    simulateRemoteCommand(Command.SEEK, { position: 42 });
+    simulateRemoteCommand(Command.CHANGE_PLAYBACK_RATE, { rate: 1.5 });
+    await flush();
+
+    expect(adapter.play).toHaveBeenCalledTimes(1);
+    expect(adapter.pause).toHaveBeenCalledTimes(1);
+    expect(adapter.seekTo).toHaveBeenCalledWith(42);
+    expect(adapter.setRate).toHaveBeenCalledWith(1.5);
+  });
+
+  it("toggles based on whether the player is playing", async () => {
+    const { adapter, setStatus } = createPlayer();
+    unbind = bindPlayer(adapter);
+
+    simulateRemoteCommand(Command.TOGGLE_PLAY_PAUSE);
+    await flush();
+    expect(adapter.play).toHaveBeenCalledTimes(1);
+
+    setStatus({ playing: true });
+    simulateRemoteCommand(Command.TOGGLE_PLAY_PAUSE);
+    await flush();
+    expect(adapter.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops with pause and a seek to the start without a stop method", async () => {
+    const { adapter } = createPlayer({ playing: true, position: 50 });
+    unbind = bindPlayer(adapter);
+
+    simulateRemoteCommand(Command.STOP);
+    await flush();
+
+    expect(adapter.pause).toHaveBeenCalledTimes(1);
+    expect(adapter.seekTo).toHaveBeenCalledWith(0);
+  });
+
+  it("uses the player's stop method when it has one", async () => {
+    const { adapter } = createPlayer();
+    const stop = jest.fn();
+    unbind = bindPlayer({ ...adapter, stop });
+
+    simulateRemoteCommand(Command.STOP);
+    await flush();
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(adapter.pause).not.toHaveBeenCalled();
+  });
+
+  it("keeps skips within the track", async () => {
+    const { adapter } = createPlayer({ position: 190 });
+    unbind = bindPlayer(adapter);
+
+    simulateRemoteCommand(Command.SKIP_FORWARD, { interval: 15 });
+    await flush();
+    expect(adapter.seekTo).toHaveBeenLastCalledWith(200);
+
+    const start = createPlayer({ position: 10 });
+    unbind();
+    unbind = bindPlayer(start.adapter);
+
+    simulateRemoteCommand(Command.SKIP_BACKWARD, { interval: 15 });
+    await flush();
+    expect(start.adapter.seekTo).toHaveBeenLastCalledWith(0);
+  });
+
+  it("waits for a skip seek before the next action", async () => {
+    const { adapter } = createPlayer({ position: 30 });
+    let finishSeek = () => {};
+    adapter.seekTo.mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          finishSeek = resolve;
+        }),
+    );
+    unbind = bindPlayer(adapter);
+
+    simulateRemoteCommand(Command.SKIP_FORWARD, { interval: 15 });
+    simulateRemoteCommand(Command.PLAY);
+    await flush();
+
+    expect(adapter.seekTo).toHaveBeenCalledWith(45);
+    expect(adapter.play).not.toHaveBeenCalled();
+
+    finishSeek();
+    await flush();
+    expect(adapter.play).toHaveBeenCalledTimes(1);
+  });
+
+  it("hands track navigation to the callbacks", () => {
+    const { adapter } = createPlayer();
+    const onNextTrack = jest.fn();
+    const onPreviousTrack = jest.fn();
+    unbind = bindPlayer(adapter, { onNextTrack, onPreviousTrack });
+
+    simulateRemoteCommand(Command.NEXT_TRACK);
+    simulateRemoteCommand(Command.PREVIOUS_TRACK);
+
+    expect(onNextTrack).toHaveBeenCalledWith(
+      expect.objectContaining({ command: Command.NEXT_TRACK }),
+    );
+    expect(onPreviousTrack).toHaveBeenCalledWith(
+      expect.objectContaining({ command: Command.PREVIOUS_TRACK }),
+    );
+  });
+
+  it("publishes the player status, duration and position drift", async () => {
+    const { adapter, setStatus } = createPlayer({ position: 5 });
+    unbind = bindPlayer(adapter);
+    await flush();
+
+    expect(getLastPlaybackState()).toEqual({
+      state: PlaybackState.PAUSED,
+      position: 5,
+      playbackRate: 0,
+    });
+    expect(getLastMetadata()?.duration).toBe(200);
+
+    setStatus({ playing: true, rate: 2 });
+    await flush();
+    expect(getLastPlaybackState()).toEqual({
+      state: PlaybackState.PLAYING,
+      position: 5,
+      playbackRate: 2,
+    });
+
+    fake.calls = [];
+    setStatus({ position: 5.1 });
+    await flush();
+    expect(fake.calls).toEqual([]);
+
+    setStatus({ position: 60 });
+    await flush();
+    expect(getLastPlaybackState().position).toBe(60);
+
+    setStatus({ buffering: true });
+    await flush();
+    expect(getLastPlaybackState().state).toBe(PlaybackState.BUFFERING);
+  });
+
+  it("stops forwarding and publishing once unbound", async () => {
+    const { adapter, listeners } = createPlayer();
+    bindPlayer(adapter)();
+
+    simulateRemoteCommand(Command.PLAY);
+    await flush();
+
+    expect(adapter.play).not.toHaveBeenCalled();
+    expect(listeners.size).toBe(0);
+  });
+});
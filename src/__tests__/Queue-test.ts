@@ -0,0 +1,149 @@
+import MediaControl, {
+  Command,
+  MediaControlEvent,
+  NativeError,
+  NotEnabledError,
+  QueueItem,
+  ValidationError,
+} from "..";
+import {
+  FakeExpoMediaControlModule,
+  installFakeNativeModule,
+  simulateRemoteCommand,
+} from "../testing";
+
+const ITEMS: QueueItem[] = [
+  { id: "a", metadata: { title: "A" } },
+  { id: "b", metadata: { title: "B" } },
+  { id: "c", metadata: { title: "C" } },
+];
+
+/**
+ * Wait for queue transitions, which are delivered asynchronously
+ */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("queue", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(async () => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    await MediaControl.enableMediaControls();
+  });
+
+  it("publishes the queue and shows the active item", async () => {
+    await MediaControl.setQueue(ITEMS, "b");
+
+    expect(fake.queue.map(({ id }) => id)).toEqual(["a", "b", "c"]);
+    expect(fake.activeQueueIndex).toBe(1);
+    expect(fake.metadata).toEqual({ title: "B" });
+    expect(MediaControl.getActiveQueueItem()?.id).toBe("b");
+  });
+
+  it("keeps the active item while editing the queue", async () => {
+    await MediaControl.setQueue(ITEMS, "b");
+
+    await MediaControl.addToQueue({ id: "z", metadata: { title: "Z" } }, 0);
+    await MediaControl.moveQueueItem("b", 3);
+    await MediaControl.removeFromQueue("a");
+
+    expect(MediaControl.getQueue().map(({ id }) => id)).toEqual([
+      "z",
+      "c",
+      "b",
+    ]);
+    expect(MediaControl.getActiveQueueItem()?.id).toBe("b");
+    expect(fake.activeQueueIndex).toBe(2);
+  });
+
+  it("rejects invalid edits without changing the queue", async () => {
+    await MediaControl.setQueue(ITEMS);
+
+    await expect(MediaControl.removeFromQueue("missing")).rejects.toThrow(
+      ValidationError,
+    );
+    await expect(
+      MediaControl.addToQueue({ id: "a", metadata: { title: "Again" } }),
+    ).rejects.toThrow(ValidationError);
+    await expect(MediaControl.moveQueueItem("a", 5)).rejects.toThrow(
+      ValidationError,
+    );
+
+    expect(MediaControl.getQueue()).toEqual(ITEMS);
+  });
+
+  it("requires media controls to be enabled", async () => {
+    await MediaControl.disableMediaControls();
+
+    await expect(MediaControl.setQueue(ITEMS)).rejects.toThrow(NotEnabledError);
+    expect(MediaControl.getQueue()).toEqual([]);
+  });
+
+  it("restores the previous queue when native rejects a change", async () => {
+    await MediaControl.setQueue(ITEMS);
+    jest
+      .spyOn(fake, "updateQueue")
+      .mockRejectedValueOnce(new Error("session gone"));
+
+    const error = await MediaControl.removeFromQueue("a").catch((e) => e);
+
+    expect(error).toBeInstanceOf(NativeError);
+    expect(error.code).toBe("UPDATE_QUEUE_FAILED");
+    expect(MediaControl.getQueue()).toEqual(ITEMS);
+    expect(fake.queue.map(({ id }) => id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("moves the queue on track navigation commands", async () => {
+    await MediaControl.setQueue(ITEMS);
+    const events: MediaControlEvent[] = [];
+    MediaControl.addListener((event) => events.push(event));
+
+    simulateRemoteCommand(Command.NEXT_TRACK);
+    simulateRemoteCommand(Command.SKIP_TO_QUEUE_ITEM, { id: "a" });
+    await flush();
+
+    expect(events.map(({ data }) => data)).toEqual([
+      { currentItem: ITEMS[0], targetItem: ITEMS[1] },
+      { id: "a", currentItem: ITEMS[1], targetItem: ITEMS[0] },
+    ]);
+    expect(MediaControl.getActiveQueueItem()?.id).toBe("a");
+    expect(fake.metadata).toEqual({ title: "A" });
+  });
+
+  it("reports no target at the start of the queue", async () => {
+    await MediaControl.setQueue(ITEMS);
+    const listener = jest.fn();
+    MediaControl.on(Command.PREVIOUS_TRACK, listener);
+
+    simulateRemoteCommand(Command.PREVIOUS_TRACK);
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { currentItem: ITEMS[0], targetItem: null },
+      }),
+    );
+    expect(MediaControl.getActiveQueueItem()?.id).toBe("a");
+  });
+
+  it("stays put when a transition cannot be published", async () => {
+    await MediaControl.setQueue(ITEMS);
+    const listener = jest.fn();
+    MediaControl.on(Command.NEXT_TRACK, listener);
+    jest
+      .spyOn(fake, "updateQueue")
+      .mockRejectedValueOnce(new Error("session gone"));
+
+    simulateRemoteCommand(Command.NEXT_TRACK);
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { currentItem: ITEMS[0], targetItem: null },
+      }),
+    );
+    expect(MediaControl.getActiveQueueItem()?.id).toBe("a");
+    expect(fake.activeQueueIndex).toBe(0);
+  });
+});
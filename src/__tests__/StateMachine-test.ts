@@ -0,0 +1,112 @@
+import MediaControl, {
+  isValidStateTransition,
+  PlaybackState,
+  ValidationError,
+} from "..";
+import { estimatePosition } from "../StateMachine";
+import { installFakeNativeModule } from "../testing";
+
+describe("isValidStateTransition", () => {
+  it("allows staying in a state and clearing the session", () => {
+    expect(
+      isValidStateTransition(PlaybackState.PAUSED, PlaybackState.PAUSED),
+    ).toBe(true);
+    expect(
+      isValidStateTransition(PlaybackState.ERROR, PlaybackState.NONE),
+    ).toBe(true);
+  });
+
+  it("requires reloading before playing after an error", () => {
+    expect(
+      isValidStateTransition(PlaybackState.ERROR, PlaybackState.PLAYING),
+    ).toBe(false);
+    expect(
+      isValidStateTransition(PlaybackState.ERROR, PlaybackState.BUFFERING),
+    ).toBe(true);
+  });
+});
+
+describe("estimatePosition", () => {
+  const snapshot = {
+    state: PlaybackState.PLAYING,
+    position: 10,
+    playbackRate: 2,
+    positionUpdatedAt: 1_000,
+    metadata: { title: "Song", duration: 15 },
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(3_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("advances by elapsed time times the rate while playing", () => {
+    expect(estimatePosition({ ...snapshot, metadata: null })).toBe(14);
+  });
+
+  it("stops at the track duration", () => {
+    jest.spyOn(Date, "now").mockReturnValue(10_000);
+
+    expect(estimatePosition(snapshot)).toBe(15);
+  });
+
+  it("holds the position while not playing", () => {
+    expect(estimatePosition({ ...snapshot, state: PlaybackState.PAUSED })).toBe(
+      10,
+    );
+  });
+});
+
+describe("configureStateMachine", () => {
+  const warn = jest.fn();
+
+  beforeEach(async () => {
+    installFakeNativeModule();
+    warn.mockClear();
+    MediaControl.setLogger({ warn });
+    MediaControl.setLogLevel("warn");
+    await MediaControl.enableMediaControls();
+    await MediaControl.updatePlaybackState(PlaybackState.ERROR);
+  });
+
+  it("warns about illegal transitions by default", async () => {
+    await MediaControl.updatePlaybackState(PlaybackState.PLAYING);
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Invalid playback state transition: ERROR → PLAYING",
+      }),
+    );
+    expect(MediaControl.getSnapshot().state).toBe(PlaybackState.PLAYING);
+  });
+
+  it("rejects illegal transitions in strict mode", async () => {
+    MediaControl.configureStateMachine({ strict: true });
+
+    await expect(
+      MediaControl.updatePlaybackState(PlaybackState.PLAYING),
+    ).rejects.toThrow(ValidationError);
+    expect(MediaControl.getSnapshot().state).toBe(PlaybackState.ERROR);
+  });
+
+  it("skips the check when transitions are not validated", async () => {
+    MediaControl.configureStateMachine({
+      validateTransitions: false,
+      strict: true,
+    });
+
+    await MediaControl.updatePlaybackState(PlaybackState.PLAYING);
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(MediaControl.getSnapshot().state).toBe(PlaybackState.PLAYING);
+  });
+
+  it("rejects invalid settings", () => {
+    expect(() =>
+      MediaControl.configureStateMachine({ strict: "yes" as never }),
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,88 @@
+import MediaControl, {
+  Command,
+  NotEnabledError,
+  PlaybackState,
+  ValidationError,
+} from "..";
+import {
+  FakeExpoMediaControlModule,
+  getLastMetadata,
+  installFakeNativeModule,
+} from "../testing";
+
+describe("enable guard", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(() => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+  });
+
+  it("rejects updates before enableMediaControls", async () => {
+    const error = await MediaControl.updateMetadata({ title: "Song" }).catch(
+      (e) => e,
+    );
+
+    expect(error).toBeInstanceOf(NotEnabledError);
+    expect(error.code).toBe("NOT_ENABLED");
+    expect(error.message).toContain("updateMetadata()");
+    await expect(
+      MediaControl.updatePlaybackState(PlaybackState.PLAYING),
+    ).rejects.toThrow(NotEnabledError);
+    await expect(
+      MediaControl.setQueue([{ id: "a", metadata: { title: "Song" } }]),
+    ).rejects.toThrow(NotEnabledError);
+    expect(fake.calls).toEqual([]);
+  });
+
+  it("accepts updates when the native session outlived a JS reload", async () => {
+    fake.enabled = true;
+
+    await MediaControl.updateMetadata({ title: "Song" });
+
+    expect(fake.calls.map(({ method }) => method)).toEqual(["updateMetadata"]);
+    expect(MediaControl.getSnapshot().isEnabled).toBe(true);
+  });
+
+  it("enables with the configured options before the update in autoEnable mode", async () => {
+    const autoEnableOptions = { capabilities: [Command.PLAY, Command.PAUSE] };
+    MediaControl.configureEnableGuard({
+      behavior: "autoEnable",
+      autoEnableOptions,
+    });
+
+    await MediaControl.updateMetadata({ title: "Song" });
+
+    expect(fake.calls.map(({ method }) => method)).toEqual([
+      "enableMediaControls",
+      "updateMetadata",
+    ]);
+    expect(fake.options).toMatchObject(autoEnableOptions);
+    expect(getLastMetadata()).toEqual({ title: "Song" });
+  });
+
+  it("enables once for updates sent together", async () => {
+    MediaControl.configureEnableGuard({ behavior: "autoEnable" });
+
+    await Promise.all([
+      MediaControl.updateMetadata({ title: "Song" }),
+      MediaControl.updatePlaybackState(PlaybackState.PLAYING),
+    ]);
+
+    expect(
+      fake.calls.filter(({ method }) => method === "enableMediaControls"),
+    ).toHaveLength(1);
+    expect(fake.state).toBe(PlaybackState.PLAYING);
+  });
+
+  it("rejects invalid settings", () => {
+    expect(() =>
+      MediaControl.configureEnableGuard({ behavior: "ignore" as never }),
+    ).toThrow(ValidationError);
+    expect(() =>
+      MediaControl.configureEnableGuard({
+        autoEnableOptions: { capabilities: ["rewind" as never] },
+      }),
+    ).toThrow(ValidationError);
+  });
+});
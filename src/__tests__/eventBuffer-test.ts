@@ -0,0 +1,130 @@
+import MediaControl, { Command, MediaControlEvent, ValidationError } from "..";
+import {
+  FakeExpoMediaControlModule,
+  installFakeNativeModule,
+  simulateRemoteCommand,
+} from "../testing";
+
+// Buffered events are replayed on a microtask
+const flushReplay = () => Promise.resolve();
+
+describe("early event buffer", () => {
+  let fake: FakeExpoMediaControlModule;
+  let now: number;
+
+  beforeEach(async () => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    now = 1_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    await MediaControl.enableMediaControls();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const collect = () => {
+    const events: MediaControlEvent[] = [];
+    MediaControl.addListener((event) => events.push(event));
+    return events;
+  };
+
+  it("replays events to the first listener in arrival order", async () => {
+    simulateRemoteCommand(Command.PLAY);
+    simulateRemoteCommand(Command.SEEK, { position: 30 });
+    simulateRemoteCommand(Command.PAUSE);
+
+    const events = collect();
+    expect(events).toEqual([]);
+    await flushReplay();
+
+    expect(events.map(({ command }) => command)).toEqual([
+      Command.PLAY,
+      Command.SEEK,
+      Command.PAUSE,
+    ]);
+
+    const later = collect();
+    await flushReplay();
+    expect(later).toEqual([]);
+  });
+
+  it("keeps only the newest events beyond maxSize", async () => {
+    MediaControl.configureEventBuffer({ maxSize: 2 });
+
+    simulateRemoteCommand(Command.PLAY);
+    simulateRemoteCommand(Command.NEXT_TRACK);
+    simulateRemoteCommand(Command.PAUSE);
+
+    const events = collect();
+    await flushReplay();
+
+    expect(events.map(({ command }) => command)).toEqual([
+      Command.NEXT_TRACK,
+      Command.PAUSE,
+    ]);
+  });
+
+  it("drops events older than the ttl", async () => {
+    MediaControl.configureEventBuffer({ ttl: 1_000 });
+
+    simulateRemoteCommand(Command.PLAY);
+    now = 1_800;
+    simulateRemoteCommand(Command.PAUSE);
+    now = 2_500;
+
+    const events = collect();
+    await flushReplay();
+
+    expect(events.map(({ command }) => command)).toEqual([Command.PAUSE]);
+  });
+
+  it("hands per-command listeners only their events", async () => {
+    simulateRemoteCommand(Command.PLAY);
+    simulateRemoteCommand(Command.SEEK, { position: 30 });
+
+    const onSeek = jest.fn();
+    MediaControl.on(Command.SEEK, onSeek);
+    await flushReplay();
+
+    expect(onSeek).toHaveBeenCalledTimes(1);
+    expect(onSeek.mock.calls[0][0].data).toEqual({ position: 30 });
+
+    const events = collect();
+    await flushReplay();
+    expect(events.map(({ command }) => command)).toEqual([Command.PLAY]);
+  });
+
+  it("buffers nothing when disabled", async () => {
+    simulateRemoteCommand(Command.PLAY);
+    MediaControl.configureEventBuffer({ enabled: false });
+    simulateRemoteCommand(Command.PAUSE);
+
+    const events = collect();
+    await flushReplay();
+
+    expect(events).toEqual([]);
+  });
+
+  it("applies the settings to the native buffer", () => {
+    MediaControl.configureEventBuffer({ maxSize: 3 });
+
+    expect(fake.eventBufferOptions).toEqual({
+      enabled: true,
+      maxSize: 3,
+      ttl: 5_000,
+    });
+  });
+
+  it("rejects invalid settings without changing anything", () => {
+    expect(() => MediaControl.configureEventBuffer({ maxSize: 0 })).toThrow(
+      ValidationError,
+    );
+    expect(() => MediaControl.configureEventBuffer({ ttl: -1 })).toThrow(
+      ValidationError,
+    );
+
+    expect(fake.eventBufferOptions).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import MediaControl, { Command, MediaControlEvent, RatingType } from "..";
+import {
+  FakeExpoMediaControlModule,
+  installFakeNativeModule,
+} from "../testing";
+
+/**
+ * Raw payloads as each platform sends them for the same remote command
+ * Android sends null for commands without data, iOS an empty object
+ */
+const NATIVE_PAYLOADS: {
+  command: Command;
+  android: Record<string, unknown> | null;
+  ios: Record<string, unknown>;
+}[] = [
+  { command: Command.PLAY, android: null, ios: {} },
+  { command: Command.TOGGLE_PLAY_PAUSE, android: null, ios: {} },
+  { command: Command.NEXT_TRACK, android: null, ios: {} },
+  {
+    command: Command.SEEK,
+    android: { position: 42.5 },
+    ios: { position: 42.5 },
+  },
+  {
+    command: Command.SKIP_FORWARD,
+    android: { interval: 15.0 },
+    ios: { interval: 15 },
+  },
+  {
+    command: Command.SKIP_BACKWARD,
+    android: { interval: 30 },
+    ios: { interval: 30.0 },
+  },
+  {
+    command: Command.SET_RATING,
+    android: { rating: true, type: "heart" },
+    ios: { rating: true, type: "heart" },
+  },
+  {
+    command: Command.SET_SHUFFLE_MODE,
+    android: { mode: "all" },
+    ios: { mode: "all" },
+  },
+  {
+    command: Command.SET_REPEAT_MODE,
+    android: { mode: "one" },
+    ios: { mode: "one" },
+  },
+  {
+    command: Command.CHANGE_PLAYBACK_RATE,
+    android: { rate: 1.5 },
+    ios: { rate: 1.5 },
+  },
+  {
+    command: Command.LIKE,
+    android: { isActive: true },
+    ios: { isActive: true },
+  },
+  { command: Command.CUSTOM, android: { id: "sleep" }, ios: { id: "sleep" } },
+  {
+    command: Command.SKIP_TO_QUEUE_ITEM,
+    android: { id: "b" },
+    ios: { id: "b" },
+  },
+];
+
+describe("media control events", () => {
+  let fake: FakeExpoMediaControlModule;
+  let events: MediaControlEvent[];
+
+  beforeEach(() => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    events = [];
+    MediaControl.addListener((event) => events.push(event));
+  });
+
+  it.each(NATIVE_PAYLOADS)(
+    "delivers the same $command event for both platforms",
+    ({ command, android, ios }) => {
+      fake.emit("mediaControlEvent", {
+        command,
+        data: android,
+        timestamp: 1000,
+      });
+      fake.emit("mediaControlEvent", { command, data: ios, timestamp: 1000 });
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toEqual(events[1]);
+      expect(events[0]).toMatchObject({ command, timestamp: 1000 });
+    },
+  );
+
+  it("types command payloads", () => {
+    fake.emit("mediaControlEvent", { command: Command.PLAY, data: {} });
+    fake.emit("mediaControlEvent", {
+      command: Command.SET_RATING,
+      data: { rating: 4.0, type: "fiveStars" },
+    });
+    fake.emit("mediaControlEvent", { command: Command.SKIP_FORWARD, data: {} });
+
+    expect(events.map(({ data }) => data)).toEqual([
+      undefined,
+      { rating: { type: RatingType.FIVE_STARS, value: 4, maxValue: 5 } },
+      { interval: 15 },
+    ]);
+  });
+
+  it("drops events that cannot be represented", () => {
+    fake.emit("mediaControlEvent", { command: Command.SEEK, data: {} });
+    fake.emit("mediaControlEvent", { command: "rewind", data: null });
+    fake.emit("mediaControlEvent", null);
+
+    expect(events).toEqual([]);
+  });
+
+  it("only calls per-command listeners for their command", () => {
+    const onSeek = jest.fn();
+    MediaControl.on(Command.SEEK, onSeek);
+
+    fake.emit("mediaControlEvent", { command: Command.PLAY, data: null });
+    fake.emit("mediaControlEvent", {
+      command: Command.SEEK,
+      data: { position: -3 },
+    });
+
+    expect(onSeek).toHaveBeenCalledTimes(1);
+    expect(onSeek.mock.calls[0][0].data).toEqual({ position: 0 });
+  });
+});
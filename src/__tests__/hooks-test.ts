@@ -0,0 +1,94 @@
+import { act, renderHook } from "@testing-library/react-native";
+
+import MediaControl, {
+  Command,
+  PlaybackState,
+  useMediaControlEvent,
+  useMediaControlsEnabled,
+  useNowPlaying,
+  usePlaybackState,
+} from "..";
+import { installFakeNativeModule, simulateRemoteCommand } from "../testing";
+
+describe("snapshot hooks", () => {
+  beforeEach(() => {
+    installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+  });
+
+  it("re-render when the snapshot changes", async () => {
+    const { result } = renderHook(() => ({
+      enabled: useMediaControlsEnabled(),
+      state: usePlaybackState(),
+      metadata: useNowPlaying(),
+    }));
+    expect(result.current).toEqual({
+      enabled: false,
+      state: PlaybackState.NONE,
+      metadata: null,
+    });
+
+    await act(async () => {
+      await MediaControl.enableMediaControls();
+      await MediaControl.updateMetadata({ title: "Song" });
+      await MediaControl.updatePlaybackState(PlaybackState.PLAYING, 5);
+    });
+
+    expect(result.current).toEqual({
+      enabled: true,
+      state: PlaybackState.PLAYING,
+      metadata: { title: "Song" },
+    });
+  });
+
+  it("skip renders for changes outside the selected value", async () => {
+    await MediaControl.enableMediaControls();
+    await MediaControl.updateMetadata({ title: "Song" });
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders += 1;
+      return useNowPlaying();
+    });
+    const initialRenders = renders;
+
+    await act(async () => {
+      await MediaControl.updatePlaybackState(PlaybackState.PLAYING);
+    });
+    expect(renders).toBe(initialRenders);
+
+    await act(async () => {
+      await MediaControl.patchMetadata({ artist: "Artist" });
+    });
+    expect(renders).toBe(initialRenders + 1);
+    expect(result.current).toEqual({ title: "Song", artist: "Artist" });
+  });
+});
+
+describe("useMediaControlEvent", () => {
+  beforeEach(async () => {
+    installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    await MediaControl.enableMediaControls();
+  });
+
+  it("calls the latest handler and unsubscribes on unmount", () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const { rerender, unmount } = renderHook(
+      ({ handler }: { handler: () => void }) =>
+        useMediaControlEvent(Command.PLAY, handler),
+      { initialProps: { handler: first } },
+    );
+
+    rerender({ handler: second });
+    simulateRemoteCommand(Command.PLAY);
+    simulateRemoteCommand(Command.PAUSE);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    unmount();
+    simulateRemoteCommand(Command.PLAY);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
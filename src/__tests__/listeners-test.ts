@@ -0,0 +1,111 @@
+import MediaControl, { Command, PlaybackState, ValidationError } from "..";
+import {
+  FakeExpoMediaControlModule,
+  installFakeNativeModule,
+  simulateRemoteCommand,
+  simulateVolumeChange,
+} from "../testing";
+
+describe("native event subscriptions", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(() => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+  });
+
+  it("share one native listener between JS listeners", async () => {
+    await MediaControl.enableMediaControls();
+    const first = jest.fn();
+    const second = jest.fn();
+    const onPlay = jest.fn();
+
+    MediaControl.addListener(first);
+    MediaControl.addListener(second);
+    MediaControl.on(Command.PLAY, onPlay);
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(fake.listenerCount("mediaControlEvent")).toBe(1);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(onPlay).toHaveBeenCalledTimes(1);
+  });
+
+  it("remove the native listener with the last reference", () => {
+    const first = MediaControl.addListener(jest.fn());
+    const second = MediaControl.addListener(jest.fn());
+    expect(fake.listenerCount("mediaControlEvent")).toBe(1);
+
+    first.remove();
+    expect(fake.listenerCount("mediaControlEvent")).toBe(1);
+
+    second.remove();
+    second.remove();
+    expect(fake.listenerCount("mediaControlEvent")).toBe(0);
+  });
+
+  it("stay subscribed while media controls are enabled", async () => {
+    await MediaControl.enableMediaControls();
+    MediaControl.addListener(jest.fn());
+
+    await MediaControl.removeAllListeners();
+    expect(fake.listenerCount("mediaControlEvent")).toBe(1);
+
+    await MediaControl.disableMediaControls();
+    expect(fake.listenerCount("mediaControlEvent")).toBe(0);
+  });
+});
+
+describe("removeAllListeners", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(async () => {
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    await MediaControl.enableMediaControls();
+  });
+
+  it("removes only the listeners of the given type", async () => {
+    const onEvent = jest.fn();
+    const onVolume = jest.fn();
+    MediaControl.addListener(onEvent);
+    MediaControl.addVolumeChangeListener(onVolume);
+
+    await MediaControl.removeAllListeners("volumeChange");
+    simulateVolumeChange({ volume: 0.8 });
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(onVolume).not.toHaveBeenCalled();
+    expect(fake.listenerCount("volumeChange")).toBe(0);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps snapshot listeners unless asked for them", async () => {
+    const onStateChange = jest.fn();
+    const onSnapshot = jest.fn();
+    MediaControl.addStateChangeListener(onStateChange);
+    MediaControl.addSnapshotListener(onSnapshot);
+
+    await MediaControl.removeAllListeners();
+    await MediaControl.updatePlaybackState(PlaybackState.PLAYING);
+    expect(onStateChange).not.toHaveBeenCalled();
+    expect(onSnapshot).toHaveBeenCalled();
+
+    onSnapshot.mockClear();
+    await MediaControl.removeAllListeners("snapshot");
+    await MediaControl.updatePlaybackState(PlaybackState.PAUSED);
+    expect(onSnapshot).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown listener type", async () => {
+    const onEvent = jest.fn();
+    MediaControl.addListener(onEvent);
+
+    await expect(
+      MediaControl.removeAllListeners("mediaControlEvent" as never),
+    ).rejects.toThrow(ValidationError);
+
+    simulateRemoteCommand(Command.PLAY);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+});
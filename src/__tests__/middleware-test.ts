@@ -0,0 +1,124 @@
+import MediaControl, { Command, MediaControlEvent } from "..";
+import { installFakeNativeModule, simulateRemoteCommand } from "../testing";
+
+describe("use", () => {
+  const error = jest.fn();
+  const warn = jest.fn();
+  let events: MediaControlEvent[];
+
+  beforeEach(async () => {
+    installFakeNativeModule();
+    MediaControl.setLogger({ error, warn });
+    MediaControl.setLogLevel("warn");
+    error.mockClear();
+    warn.mockClear();
+    await MediaControl.enableMediaControls();
+    events = [];
+    MediaControl.addListener((event) => events.push(event));
+  });
+
+  it("runs middleware in registration order before listeners", () => {
+    const order: string[] = [];
+    MediaControl.use((event, next) => {
+      order.push("first");
+      next(event);
+    });
+    MediaControl.use((event, next) => {
+      order.push("second");
+      next(event);
+    });
+
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(order).toEqual(["first", "second"]);
+    expect(events.map(({ command }) => command)).toEqual([Command.PLAY]);
+  });
+
+  it("lets middleware replace or drop events", () => {
+    MediaControl.use((event, next) => {
+      if (event.command === Command.STOP) {
+        return;
+      }
+      next(
+        event.command === Command.TOGGLE_PLAY_PAUSE
+          ? {
+              command: Command.PAUSE,
+              data: undefined,
+              timestamp: event.timestamp,
+            }
+          : event,
+      );
+    });
+
+    simulateRemoteCommand(Command.STOP);
+    simulateRemoteCommand(Command.TOGGLE_PLAY_PAUSE);
+
+    expect(events.map(({ command }) => command)).toEqual([Command.PAUSE]);
+  });
+
+  it("ignores invalid events passed to next", () => {
+    MediaControl.use((_event, next) => next({ command: "rewind" } as never));
+
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(events).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Ignoring invalid event passed by middleware",
+      }),
+    );
+  });
+
+  it("logs errors thrown by middleware", async () => {
+    MediaControl.use(() => {
+      throw new Error("boom");
+    });
+    MediaControl.use(async () => {
+      throw new Error("async boom");
+    });
+
+    simulateRemoteCommand(Command.PLAY);
+    await Promise.resolve();
+
+    expect(events).toEqual([]);
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0].error.message).toBe("boom");
+  });
+
+  it("stops running middleware once removed", () => {
+    const middleware = jest.fn();
+    const subscription = MediaControl.use(middleware);
+
+    subscription.remove();
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(middleware).not.toHaveBeenCalled();
+    expect(events).toHaveLength(1);
+  });
+
+  it("does not advance the queue for a remapped track change", async () => {
+    await MediaControl.setQueue([
+      { id: "a", metadata: { title: "A" } },
+      { id: "b", metadata: { title: "B" } },
+    ]);
+    MediaControl.use((event, next) =>
+      next(
+        event.command === Command.NEXT_TRACK
+          ? {
+              command: Command.SKIP_FORWARD,
+              data: { interval: 15 },
+              timestamp: event.timestamp,
+            }
+          : event,
+      ),
+    );
+
+    simulateRemoteCommand(Command.NEXT_TRACK);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(events.map(({ command }) => command)).toEqual([
+      Command.SKIP_FORWARD,
+    ]);
+    expect(MediaControl.getActiveQueueItem()?.id).toBe("a");
+  });
+});
@@ -0,0 +1,80 @@
+import MediaControl, { ValidationError } from "..";
+import {
+  FakeExpoMediaControlModule,
+  getLastMetadata,
+  installFakeNativeModule,
+} from "../testing";
+
+const ARTWORK = { uri: "https://example.com/cover.png" };
+
+describe("patchMetadata", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(async () => {
+    fake = installFakeNativeModule();
+    await MediaControl.enableMediaControls();
+    await MediaControl.updateMetadata({
+      title: "Song",
+      artist: "Artist",
+      album: "Album",
+      artwork: ARTWORK,
+    });
+    fake.calls = [];
+  });
+
+  it("keeps untouched fields and sends only the changes", async () => {
+    await MediaControl.patchMetadata({ title: "Other song", artist: "Artist" });
+
+    expect(fake.calls).toEqual([
+      { method: "patchMetadata", args: [{ title: "Other song" }] },
+    ]);
+    expect(getLastMetadata()).toEqual({
+      title: "Other song",
+      artist: "Artist",
+      album: "Album",
+      artwork: ARTWORK,
+    });
+    expect(MediaControl.getSnapshot().metadata).toEqual(getLastMetadata());
+  });
+
+  it("clears fields set to null", async () => {
+    await MediaControl.patchMetadata({ album: null, artwork: null });
+
+    expect(fake.calls).toEqual([
+      { method: "patchMetadata", args: [{ album: null, artwork: null }] },
+    ]);
+    expect(getLastMetadata()).toEqual({ title: "Song", artist: "Artist" });
+    expect(MediaControl.getSnapshot().metadata).toEqual({
+      title: "Song",
+      artist: "Artist",
+    });
+  });
+
+  it("sends nothing when nothing changed", async () => {
+    await MediaControl.patchMetadata({
+      title: "Song",
+      artwork: { ...ARTWORK },
+      genre: null,
+    });
+
+    expect(fake.calls).toEqual([]);
+  });
+
+  it("keeps JS-only fields out of the native patch", async () => {
+    const chapters = [{ title: "Intro", startTime: 0 }];
+
+    await MediaControl.patchMetadata({ chapters });
+
+    expect(fake.calls).toEqual([]);
+    expect(MediaControl.getSnapshot().metadata?.chapters).toEqual(chapters);
+  });
+
+  it("rejects invalid values without changing anything", async () => {
+    await expect(
+      MediaControl.patchMetadata({ title: null, duration: -5 }),
+    ).rejects.toThrow(ValidationError);
+
+    expect(fake.calls).toEqual([]);
+    expect(getLastMetadata()?.title).toBe("Song");
+  });
+});
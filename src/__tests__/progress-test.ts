@@ -0,0 +1,125 @@
+import MediaControl, { PlaybackState, ValidationError } from "..";
+import {
+  FakeExpoMediaControlModule,
+  getLastPlaybackState,
+  installFakeNativeModule,
+} from "../testing";
+
+describe("playback clock", () => {
+  let fake: FakeExpoMediaControlModule;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    fake = installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    await MediaControl.enableMediaControls();
+    await MediaControl.updateMetadata({ title: "Song", duration: 100 });
+    await MediaControl.updatePlaybackState(PlaybackState.PLAYING, 10, 1.5);
+    fake.calls = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("getEstimatedPosition", () => {
+    it("advances with the playback rate while playing", () => {
+      jest.advanceTimersByTime(2_000);
+
+      expect(MediaControl.getEstimatedPosition()).toBe(13);
+    });
+
+    it("holds the position once paused", async () => {
+      jest.advanceTimersByTime(2_000);
+      await MediaControl.updatePlaybackState(PlaybackState.PAUSED);
+      jest.advanceTimersByTime(5_000);
+
+      expect(MediaControl.getEstimatedPosition()).toBe(13);
+    });
+  });
+
+  describe("addProgressListener", () => {
+    it("reports the estimated progress on every tick", () => {
+      const listener = jest.fn();
+      MediaControl.addProgressListener(1_000, listener);
+
+      jest.advanceTimersByTime(2_000);
+
+      expect(listener.mock.calls.map(([progress]) => progress)).toEqual([
+        { position: 11.5, duration: 100, state: PlaybackState.PLAYING },
+        { position: 13, duration: 100, state: PlaybackState.PLAYING },
+      ]);
+    });
+
+    it("stops ticking once removed", () => {
+      const listener = jest.fn();
+      const subscription = MediaControl.addProgressListener(1_000, listener);
+
+      jest.advanceTimersByTime(1_000);
+      subscription.remove();
+      jest.advanceTimersByTime(3_000);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps ticking when a listener throws", () => {
+      const listener = jest.fn(() => {
+        throw new Error("boom");
+      });
+      MediaControl.addProgressListener(500, listener);
+
+      jest.advanceTimersByTime(1_000);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects an invalid interval", () => {
+      expect(() => MediaControl.addProgressListener(0, jest.fn())).toThrow(
+        ValidationError,
+      );
+    });
+  });
+
+  describe("syncPlaybackPosition", () => {
+    it("sends nothing while the position matches the estimate", async () => {
+      jest.advanceTimersByTime(2_000);
+
+      await expect(MediaControl.syncPlaybackPosition(13.5)).resolves.toBe(
+        false,
+      );
+      expect(fake.calls).toEqual([]);
+    });
+
+    it("pushes the position when it drifts past the threshold", async () => {
+      jest.advanceTimersByTime(2_000);
+
+      await expect(MediaControl.syncPlaybackPosition(20)).resolves.toBe(true);
+      expect(getLastPlaybackState()).toEqual({
+        state: PlaybackState.PLAYING,
+        position: 20,
+        playbackRate: 1.5,
+      });
+      expect(MediaControl.getEstimatedPosition()).toBe(20);
+    });
+
+    it("uses the given drift threshold", async () => {
+      jest.advanceTimersByTime(2_000);
+
+      await expect(MediaControl.syncPlaybackPosition(13.5, 0.25)).resolves.toBe(
+        true,
+      );
+      await expect(MediaControl.syncPlaybackPosition(20, 10)).resolves.toBe(
+        false,
+      );
+    });
+
+    it("rejects invalid input", async () => {
+      await expect(MediaControl.syncPlaybackPosition(-1)).rejects.toThrow(
+        ValidationError,
+      );
+      await expect(MediaControl.syncPlaybackPosition(5, -1)).rejects.toThrow(
+        ValidationError,
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import MediaControl, { Command, MediaControlEvent, PlaybackState } from "..";
+import {
+  getFakeNativeModule,
+  getLastMetadata,
+  getLastPlaybackState,
+  installFakeNativeModule,
+  simulateRemoteCommand,
+  simulateVolumeChange,
+  uninstallFakeNativeModule,
+} from "../testing";
+
+describe("testing", () => {
+  beforeEach(() => {
+    installFakeNativeModule();
+  });
+
+  afterAll(() => {
+    uninstallFakeNativeModule();
+  });
+
+  it("records the calls made to the fake", async () => {
+    await MediaControl.enableMediaControls();
+    await MediaControl.updateMetadata({ title: "Song", artist: "Artist" });
+    await MediaControl.updatePlaybackState(PlaybackState.PLAYING, 12);
+
+    expect(getFakeNativeModule().calls.map(({ method }) => method)).toEqual([
+      "enableMediaControls",
+      "updateMetadata",
+      "updatePlaybackState",
+    ]);
+    expect(getLastMetadata()).toEqual({ title: "Song", artist: "Artist" });
+    expect(getLastPlaybackState()).toEqual({
+      state: PlaybackState.PLAYING,
+      position: 12,
+      playbackRate: 1,
+    });
+  });
+
+  it("delivers simulated remote commands once controls are enabled", async () => {
+    const events: MediaControlEvent[] = [];
+    MediaControl.addListener((event) => events.push(event));
+
+    simulateRemoteCommand(Command.PLAY);
+    expect(events).toEqual([]);
+
+    await MediaControl.enableMediaControls();
+    simulateRemoteCommand(Command.SEEK, { position: 30 });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      command: Command.SEEK,
+      data: { position: 30 },
+    });
+  });
+
+  it("reports simulated volume changes to listeners and getVolume", async () => {
+    const listener = jest.fn();
+    MediaControl.addVolumeChangeListener(listener);
+
+    simulateVolumeChange({ volume: 0.2 });
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ volume: 0.2, userInitiated: true }),
+    );
+    expect(await MediaControl.getVolume()).toMatchObject({
+      volume: 0.2,
+      muted: false,
+    });
+  });
+
+  it("starts every install from a clean session", async () => {
+    await MediaControl.enableMediaControls();
+    await MediaControl.updateMetadata({ title: "Song" });
+    const listener = jest.fn();
+    MediaControl.addListener(listener);
+
+    const fake = installFakeNativeModule();
+    await MediaControl.enableMediaControls();
+    simulateRemoteCommand(Command.PLAY);
+
+    expect(MediaControl.getSnapshot().metadata).toBeNull();
+    expect(listener).not.toHaveBeenCalled();
+    expect(getFakeNativeModule()).toBe(fake);
+  });
+
+  it("throws from the helpers when no fake is installed", () => {
+    uninstallFakeNativeModule();
+
+    expect(() => getFakeNativeModule()).toThrow(
+      "No fake native module installed",
+    );
+  });
+});
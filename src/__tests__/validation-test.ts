@@ -0,0 +1,123 @@
+import { Platform } from "react-native";
+
+import MediaControl, { Command, ValidationError } from "..";
+import { getLastMetadata, installFakeNativeModule } from "../testing";
+
+describe("validateMetadata", () => {
+  beforeEach(() => {
+    installFakeNativeModule();
+  });
+
+  it("returns no issues for valid metadata", () => {
+    expect(
+      MediaControl.validateMetadata({
+        title: "Song",
+        duration: 180,
+        date: "2024-05-01",
+        artwork: { uri: "https://example.com/cover.png" },
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports every problem with its path and code", () => {
+    const issues = MediaControl.validateMetadata({
+      title: 42,
+      duration: -1,
+      date: "yesterday",
+      color: "red",
+      mediaType: "film",
+      artwork: { uri: "ftp://example.com/cover.png" },
+    });
+
+    expect(issues.map(({ path, code }) => ({ path, code }))).toEqual(
+      expect.arrayContaining([
+        { path: "title", code: "invalid_type" },
+        { path: "duration", code: "out_of_range" },
+        { path: "date", code: "invalid_format" },
+        { path: "color", code: "invalid_format" },
+        { path: "mediaType", code: "invalid_value" },
+        { path: "artwork.uri", code: "invalid_value" },
+      ]),
+    );
+    expect(issues).toHaveLength(6);
+  });
+
+  it("accepts content URIs on Android only", () => {
+    const issues = MediaControl.validateMetadata({
+      artwork: { uri: "content://media/external/images/1" },
+    });
+
+    expect(issues).toHaveLength(Platform.OS === "android" ? 0 : 1);
+  });
+
+  it("rejects values that are not objects", () => {
+    expect(MediaControl.validateMetadata("Song")).toEqual([
+      {
+        path: "metadata",
+        code: "invalid_type",
+        message: "Metadata must be an object",
+      },
+    ]);
+  });
+});
+
+describe("validateMediaControlOptions", () => {
+  it("reports unknown and misplaced commands", () => {
+    const issues = MediaControl.validateMediaControlOptions({
+      capabilities: [Command.PLAY, "rewind"],
+      compactCapabilities: [
+        Command.PLAY,
+        Command.PAUSE,
+        Command.NEXT_TRACK,
+        Command.SET_SHUFFLE_MODE,
+      ],
+    });
+
+    expect(issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: "capabilities[1]", code: "invalid_value" },
+      { path: "compactCapabilities[3]", code: "invalid_value" },
+      { path: "compactCapabilities", code: "too_many_items" },
+    ]);
+  });
+});
+
+describe("configureValidation", () => {
+  beforeEach(async () => {
+    installFakeNativeModule();
+    MediaControl.setLogLevel("silent");
+    await MediaControl.enableMediaControls();
+  });
+
+  it("rejects invalid metadata with every issue in strict mode", async () => {
+    const error = await MediaControl.updateMetadata({
+      title: 1,
+      duration: "long",
+    } as never).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.field).toBe("title");
+    expect(error.issues.map(({ path }: { path: string }) => path)).toEqual([
+      "title",
+      "duration",
+    ]);
+    expect(getLastMetadata()).toBeNull();
+  });
+
+  it("drops invalid fields in lenient mode", async () => {
+    MediaControl.configureValidation({ mode: "lenient" });
+
+    await MediaControl.updateMetadata({
+      title: "Song",
+      artist: 7,
+      duration: 180,
+    } as never);
+
+    expect(getLastMetadata()).toEqual({ title: "Song", duration: 180 });
+  });
+
+  it("rejects an unknown mode", () => {
+    expect(() =>
+      MediaControl.configureValidation({ mode: "loose" as never }),
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,103 @@
+// =============================================
+// CUSTOM ERROR TYPES
+// =============================================
+
+/**
+ * Codes carried by media control errors
+ * The *_FAILED codes match the ones native promises reject with
+ */
+export type MediaControlErrorCode =
+  | "VALIDATION_ERROR"
+  | "NOT_ENABLED"
+  | "ENABLE_FAILED"
+  | "DISABLE_FAILED"
+  | "UPDATE_METADATA_FAILED"
+  | "UPDATE_STATE_FAILED"
+  | "UPDATE_QUEUE_FAILED"
+  | "RESET_FAILED"
+  | "GET_VOLUME_FAILED"
+  | "SET_VOLUME_FAILED"
+  | "SET_SHUFFLE_MODE_FAILED"
+  | "SET_REPEAT_MODE_FAILED"
+  | "SET_FEEDBACK_STATE_FAILED"
+  | "PREFETCH_ARTWORK_FAILED"
+  | "CLEAR_ARTWORK_CACHE_FAILED"
+  | "GET_ARTWORK_CACHE_STATS_FAILED"
+  | "UPDATE_CUSTOM_ACTIONS_FAILED";
+
+/**
+ * Base error class for media control errors
+ */
+export class MediaControlError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: MediaControlErrorCode,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "MediaControlError";
+  }
+}
+
+/**
+ * Kind of problem found by validation
+ */
+export type ValidationIssueCode =
+  | "invalid_type"
+  | "invalid_value"
+  | "invalid_format"
+  | "out_of_range"
+  | "too_many_items"
+  | "duplicate";
+
+/**
+ * A single problem found while validating input
+ */
+export interface ValidationIssue {
+  /** Path of the offending field, e.g. "artwork.uri" or "capabilities[2]" */
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+}
+
+/**
+ * Error thrown when validation fails
+ * `issues` lists every problem found, `field` is the path of the first one
+ */
+export class ValidationError extends MediaControlError {
+  public readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    public readonly field?: string,
+    issues?: ValidationIssue[],
+  ) {
+    super(message, "VALIDATION_ERROR");
+    this.name = "ValidationError";
+    this.issues =
+      issues ??
+      (field !== undefined
+        ? [{ path: field, code: "invalid_value", message }]
+        : []);
+  }
+}
+
+/**
+ * Error thrown when native module operations fail
+ */
+export class NativeError extends MediaControlError {
+  constructor(message: string, code?: MediaControlErrorCode, cause?: Error) {
+    super(message, code, cause);
+    this.name = "NativeError";
+  }
+}
+
+/**
+ * Error thrown when media controls are not enabled
+ */
+export class NotEnabledError extends MediaControlError {
+  constructor(message: string = "Media controls are not enabled") {
+    super(message, "NOT_ENABLED");
+    this.name = "NotEnabledError";
+  }
+}
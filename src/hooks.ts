@@ -0,0 +1,110 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+import ExpoMediaControlModule, {
+  Command,
+  CommandListener,
+  MediaControlSnapshot,
+  MediaMetadata,
+  PlaybackState,
+} from "./ExpoMediaControlModule";
+import { log } from "./logger";
+
+// =============================================
+// SNAPSHOT SUBSCRIPTION
+// =============================================
+
+/**
+ * Whether the snapshot has been hydrated from the native module yet
+ * Native state can outlive the JS bundle (e.g. after a reload), so the first
+ * hook to subscribe reads it back once
+ */
+let hasHydrated = false;
+
+/**
+ * Subscribe function shared by all snapshot hooks
+ * Kept at module level so React sees a stable reference across renders
+ */
+function subscribeToSnapshot(onChange: () => void): () => void {
+  const remove = ExpoMediaControlModule.addSnapshotListener(onChange);
+
+  if (!hasHydrated) {
+    hasHydrated = true;
+    ExpoMediaControlModule.refreshSnapshot().catch((error) => {
+      hasHydrated = false;
+      log.error("Failed to hydrate media control snapshot", {
+        operation: "refreshSnapshot",
+        error,
+      });
+    });
+  }
+
+  return remove;
+}
+
+/**
+ * Read a value from the session snapshot and re-render when it changes
+ * Selectors must return a primitive or a reference held by the snapshot
+ */
+function useSnapshotValue<T>(
+  selector: (snapshot: MediaControlSnapshot) => T,
+): T {
+  return useSyncExternalStore(subscribeToSnapshot, () =>
+    selector(ExpoMediaControlModule.getSnapshot()),
+  );
+}
+
+// =============================================
+// HOOKS
+// =============================================
+
+/**
+ * Subscribe to a single remote command for the lifetime of the component
+ * The handler may change between renders without re-subscribing
+ * @param command The command to listen for
+ * @param handler Function to call when the command is received
+ */
+export function useMediaControlEvent<C extends Command>(
+  command: C,
+  handler: CommandListener<C>,
+): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    return ExpoMediaControlModule.on(command, (event) => {
+      handlerRef.current(event);
+    });
+  }, [command]);
+}
+
+/**
+ * Get the full session snapshot and re-render whenever it changes
+ */
+export function useMediaControlSnapshot(): MediaControlSnapshot {
+  return useSnapshotValue((snapshot) => snapshot);
+}
+
+/**
+ * Get the metadata currently displayed in system controls
+ * Returns null when nothing has been set
+ */
+export function useNowPlaying(): MediaMetadata | null {
+  return useSnapshotValue((snapshot) => snapshot.metadata);
+}
+
+/**
+ * Get the current playback state
+ */
+export function usePlaybackState(): PlaybackState {
+  return useSnapshotValue((snapshot) => snapshot.state);
+}
+
+/**
+ * Get whether media controls are currently enabled
+ */
+export function useMediaControlsEnabled(): boolean {
+  return useSnapshotValue((snapshot) => snapshot.isEnabled);
+}
@@ -1,25 +1,126 @@
 // Re-export types and enums from ExpoMediaControlModule
 import ExpoMediaControlModule from "./ExpoMediaControlModule";
+import { createSession } from "./MediaSession";
 
 export {
   PlaybackState,
   Command,
   RatingType,
   MediaArtwork,
+  ArtworkSource,
   MediaRating,
+  MediaType,
   MediaMetadata,
+  MediaChapter,
+  MetadataPatch,
+  QueueItem,
   MediaControlOptions,
+  ArtworkCacheOptions,
+  ArtworkCacheStats,
+  CustomAction,
   MediaControlEvent,
+  MediaControlEventDataMap,
+  SeekEventData,
+  SkipEventData,
+  SetRatingEventData,
+  QueueTransitionEventData,
+  SkipToQueueItemEventData,
+  CustomActionEventData,
+  ShuffleMode,
+  RepeatMode,
+  SetShuffleModeEventData,
+  SetRepeatModeEventData,
+  ChangePlaybackRateEventData,
+  FeedbackState,
+  FeedbackEventData,
   VolumeChange,
+  VolumeState,
+  VolumeStreamType,
   MediaControlEventListener,
+  CommandListener,
   VolumeChangeListener,
+  StateChangeEvent,
+  StateChangeListener,
+  StateMachineOptions,
+  MediaControlSnapshot,
+  SnapshotListener,
+  PlaybackProgress,
+  ProgressListener,
+  MediaControlMiddleware,
+  MediaControlEventNext,
+  EventBufferOptions,
+  EventSubscription,
+  ListenerType,
+  ValidationMode,
+  ValidationOptions,
+  EnableGuardBehavior,
+  EnableGuardOptions,
   // Error types
   MediaControlError,
+  MediaControlErrorCode,
   ValidationError,
+  ValidationIssue,
+  ValidationIssueCode,
   NativeError,
   NotEnabledError,
+  // State machine
+  isValidStateTransition,
 } from "./ExpoMediaControlModule";
 
+// React hooks
+export {
+  useMediaControlEvent,
+  useMediaControlSnapshot,
+  useNowPlaying,
+  usePlaybackState,
+  useMediaControlsEnabled,
+} from "./hooks";
+
+// Logging
+export { LogLevel, LogRecord, MediaControlLogger } from "./logger";
+
+// Media sessions
+export {
+  createSession,
+  MediaSession,
+  MediaSessionSnapshot,
+} from "./MediaSession";
+
+// JSON schemas
+export { mediaMetadataSchema, mediaControlOptionsSchema } from "./schemas";
+
+// Player binding
+export {
+  bindPlayer,
+  getPlaybackStateForStatus,
+  PlayerAdapter,
+  PlayerStatus,
+  PlayerStatusListener,
+  BindPlayerOptions,
+} from "./PlayerAdapter";
+export {
+  createExpoAudioAdapter,
+  ExpoAudioPlayer,
+  ExpoAudioStatus,
+} from "./ExpoAudioAdapter";
+
+// Headset gestures
+export {
+  enableHeadsetGestures,
+  HeadsetGestureOptions,
+  HeadsetGestureCommand,
+} from "./HeadsetGestures";
+
+// Chapters
+export {
+  enableChapterMode,
+  getChapterAtPosition,
+  parseCueSheet,
+  ChapterDisplayField,
+  ChapterModeOptions,
+  CueSheet,
+} from "./Chapters";
+
 // =============================================
 // MAIN API INTERFACE
 // =============================================
@@ -33,18 +134,73 @@ export interface ExpoMediaControlInterface {
   enableMediaControls: typeof ExpoMediaControlModule.enableMediaControls;
   disableMediaControls: typeof ExpoMediaControlModule.disableMediaControls;
   updateMetadata: typeof ExpoMediaControlModule.updateMetadata;
+  patchMetadata: typeof ExpoMediaControlModule.patchMetadata;
   updatePlaybackState: typeof ExpoMediaControlModule.updatePlaybackState;
   resetControls: typeof ExpoMediaControlModule.resetControls;
+  updateCustomActions: typeof ExpoMediaControlModule.updateCustomActions;
+  setShuffleMode: typeof ExpoMediaControlModule.setShuffleMode;
+  setRepeatMode: typeof ExpoMediaControlModule.setRepeatMode;
+  setFeedbackState: typeof ExpoMediaControlModule.setFeedbackState;
+
+  // Session methods
+  createSession: typeof createSession;
 
   // Event handling methods
   addListener: typeof ExpoMediaControlModule.addListener;
+  on: typeof ExpoMediaControlModule.on;
+  use: typeof ExpoMediaControlModule.use;
+  configureEventBuffer: typeof ExpoMediaControlModule.configureEventBuffer;
   addVolumeChangeListener: typeof ExpoMediaControlModule.addVolumeChangeListener;
+  addStateChangeListener: typeof ExpoMediaControlModule.addStateChangeListener;
+  configureStateMachine: typeof ExpoMediaControlModule.configureStateMachine;
   removeAllListeners: typeof ExpoMediaControlModule.removeAllListeners;
 
+  // Snapshot methods
+  getSnapshot: typeof ExpoMediaControlModule.getSnapshot;
+  addSnapshotListener: typeof ExpoMediaControlModule.addSnapshotListener;
+  refreshSnapshot: typeof ExpoMediaControlModule.refreshSnapshot;
+
+  // Playback clock methods
+  getEstimatedPosition: typeof ExpoMediaControlModule.getEstimatedPosition;
+  addProgressListener: typeof ExpoMediaControlModule.addProgressListener;
+  syncPlaybackPosition: typeof ExpoMediaControlModule.syncPlaybackPosition;
+
+  // Queue management methods
+  setQueue: typeof ExpoMediaControlModule.setQueue;
+  addToQueue: typeof ExpoMediaControlModule.addToQueue;
+  removeFromQueue: typeof ExpoMediaControlModule.removeFromQueue;
+  moveQueueItem: typeof ExpoMediaControlModule.moveQueueItem;
+  skipToQueueItem: typeof ExpoMediaControlModule.skipToQueueItem;
+  clearQueue: typeof ExpoMediaControlModule.clearQueue;
+  getQueue: typeof ExpoMediaControlModule.getQueue;
+  getActiveQueueItem: typeof ExpoMediaControlModule.getActiveQueueItem;
+
+  // Logging methods
+  setLogger: typeof ExpoMediaControlModule.setLogger;
+  setLogLevel: typeof ExpoMediaControlModule.setLogLevel;
+  getLogLevel: typeof ExpoMediaControlModule.getLogLevel;
+
+  // Enabled-state guard
+  configureEnableGuard: typeof ExpoMediaControlModule.configureEnableGuard;
+
+  // Validation methods
+  configureValidation: typeof ExpoMediaControlModule.configureValidation;
+  validateMetadata: typeof ExpoMediaControlModule.validateMetadata;
+  validateMediaControlOptions: typeof ExpoMediaControlModule.validateMediaControlOptions;
+
   // Utility methods
   isEnabled: typeof ExpoMediaControlModule.isEnabled;
   getCurrentMetadata: typeof ExpoMediaControlModule.getCurrentMetadata;
   getCurrentState: typeof ExpoMediaControlModule.getCurrentState;
+
+  // Volume methods
+  getVolume: typeof ExpoMediaControlModule.getVolume;
+  setVolume: typeof ExpoMediaControlModule.setVolume;
+
+  // Artwork cache methods
+  prefetchArtwork: typeof ExpoMediaControlModule.prefetchArtwork;
+  clearArtworkCache: typeof ExpoMediaControlModule.clearArtworkCache;
+  getArtworkCacheStats: typeof ExpoMediaControlModule.getArtworkCacheStats;
 }
 
 // =============================================
@@ -59,14 +215,52 @@ export const MediaControl: ExpoMediaControlInterface = {
   enableMediaControls: ExpoMediaControlModule.enableMediaControls,
   disableMediaControls: ExpoMediaControlModule.disableMediaControls,
   updateMetadata: ExpoMediaControlModule.updateMetadata,
+  patchMetadata: ExpoMediaControlModule.patchMetadata,
   updatePlaybackState: ExpoMediaControlModule.updatePlaybackState,
   resetControls: ExpoMediaControlModule.resetControls,
+  updateCustomActions: ExpoMediaControlModule.updateCustomActions,
+  setShuffleMode: ExpoMediaControlModule.setShuffleMode,
+  setRepeatMode: ExpoMediaControlModule.setRepeatMode,
+  setFeedbackState: ExpoMediaControlModule.setFeedbackState,
+  createSession,
   addListener: ExpoMediaControlModule.addListener,
+  on: ExpoMediaControlModule.on,
+  use: ExpoMediaControlModule.use,
+  configureEventBuffer: ExpoMediaControlModule.configureEventBuffer,
   addVolumeChangeListener: ExpoMediaControlModule.addVolumeChangeListener,
+  addStateChangeListener: ExpoMediaControlModule.addStateChangeListener,
+  configureStateMachine: ExpoMediaControlModule.configureStateMachine,
   removeAllListeners: ExpoMediaControlModule.removeAllListeners,
+  getSnapshot: ExpoMediaControlModule.getSnapshot,
+  addSnapshotListener: ExpoMediaControlModule.addSnapshotListener,
+  refreshSnapshot: ExpoMediaControlModule.refreshSnapshot,
+  getEstimatedPosition: ExpoMediaControlModule.getEstimatedPosition,
+  addProgressListener: ExpoMediaControlModule.addProgressListener,
+  syncPlaybackPosition: ExpoMediaControlModule.syncPlaybackPosition,
+  setQueue: ExpoMediaControlModule.setQueue,
+  addToQueue: ExpoMediaControlModule.addToQueue,
+  removeFromQueue: ExpoMediaControlModule.removeFromQueue,
+  moveQueueItem: ExpoMediaControlModule.moveQueueItem,
+  skipToQueueItem: ExpoMediaControlModule.skipToQueueItem,
+  clearQueue: ExpoMediaControlModule.clearQueue,
+  getQueue: ExpoMediaControlModule.getQueue,
+  getActiveQueueItem: ExpoMediaControlModule.getActiveQueueItem,
+  setLogger: ExpoMediaControlModule.setLogger,
+  setLogLevel: ExpoMediaControlModule.setLogLevel,
+  getLogLevel: ExpoMediaControlModule.getLogLevel,
+  configureEnableGuard: ExpoMediaControlModule.configureEnableGuard,
+  configureValidation: ExpoMediaControlModule.configureValidation,
+  validateMetadata: ExpoMediaControlModule.validateMetadata,
+  validateMediaControlOptions:
+    ExpoMediaControlModule.validateMediaControlOptions,
   isEnabled: ExpoMediaControlModule.isEnabled,
   getCurrentMetadata: ExpoMediaControlModule.getCurrentMetadata,
   getCurrentState: ExpoMediaControlModule.getCurrentState,
+  getVolume: ExpoMediaControlModule.getVolume,
+  setVolume: ExpoMediaControlModule.setVolume,
+  prefetchArtwork: ExpoMediaControlModule.prefetchArtwork,
+  clearArtworkCache: ExpoMediaControlModule.clearArtworkCache,
+  getArtworkCacheStats: ExpoMediaControlModule.getArtworkCacheStats,
 };
 
 // Export individual functions for backward compatibility
@@ -74,14 +268,50 @@ export const {
   enableMediaControls,
   disableMediaControls,
   updateMetadata,
+  patchMetadata,
   updatePlaybackState,
   resetControls,
+  updateCustomActions,
+  setShuffleMode,
+  setRepeatMode,
+  setFeedbackState,
   addListener,
+  on,
+  use,
+  configureEventBuffer,
   addVolumeChangeListener,
+  addStateChangeListener,
+  configureStateMachine,
   removeAllListeners,
+  getSnapshot,
+  addSnapshotListener,
+  refreshSnapshot,
+  getEstimatedPosition,
+  addProgressListener,
+  syncPlaybackPosition,
+  setQueue,
+  addToQueue,
+  removeFromQueue,
+  moveQueueItem,
+  skipToQueueItem,
+  clearQueue,
+  getQueue,
+  getActiveQueueItem,
+  setLogger,
+  setLogLevel,
+  getLogLevel,
+  configureEnableGuard,
+  configureValidation,
+  validateMetadata,
+  validateMediaControlOptions,
   isEnabled,
   getCurrentMetadata,
   getCurrentState,
+  getVolume,
+  setVolume,
+  prefetchArtwork,
+  clearArtworkCache,
+  getArtworkCacheStats,
 } = MediaControl;
 
 // Export everything for convenience
@@ -0,0 +1,154 @@
+// =============================================
+// TYPE DEFINITIONS
+// =============================================
+
+/**
+ * Minimum severity a log record needs to be emitted
+ * "silent" turns logging off entirely
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * A structured log entry
+ */
+export interface LogRecord {
+  level: Exclude<LogLevel, "silent">;
+  message: string;
+  /** Module operation that produced the record, e.g. "updateMetadata" */
+  operation?: string;
+  /** Time the operation took in ms */
+  durationMs?: number;
+  /** Error code, e.g. "UPDATE_METADATA_FAILED" */
+  code?: string;
+  error?: unknown;
+  /** Additional context, e.g. the event being dispatched */
+  data?: unknown;
+  /** Time (ms since epoch) the record was created */
+  timestamp: number;
+}
+
+/**
+ * Destination for log records, e.g. an adapter to your telemetry
+ * Levels that are not implemented are dropped
+ */
+export interface MediaControlLogger {
+  debug?(record: LogRecord): void;
+  info?(record: LogRecord): void;
+  warn?(record: LogRecord): void;
+  error?(record: LogRecord): void;
+}
+
+/**
+ * Fields of a log record supplied by the caller
+ */
+export type LogFields = Omit<LogRecord, "level" | "message" | "timestamp">;
+
+// =============================================
+// LOGGER STATE
+// =============================================
+
+/**
+ * Order of log levels, lowest first
+ */
+export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Format a record for the console
+ */
+function formatRecord(record: LogRecord): unknown[] {
+  const prefix = record.operation
+    ? `[expo-media-control] ${record.operation}:`
+    : "[expo-media-control]";
+  const details: unknown[] = [];
+  if (record.code) {
+    details.push(`(${record.code})`);
+  }
+  if (record.durationMs !== undefined) {
+    details.push(`${record.durationMs}ms`);
+  }
+  if (record.data !== undefined) {
+    details.push(record.data);
+  }
+  if (record.error !== undefined) {
+    details.push(record.error);
+  }
+  return [prefix, record.message, ...details];
+}
+
+/**
+ * Default logger writing to the console
+ */
+export const consoleLogger: Required<MediaControlLogger> = {
+  debug: (record) => console.debug(...formatRecord(record)),
+  info: (record) => console.info(...formatRecord(record)),
+  warn: (record) => console.warn(...formatRecord(record)),
+  error: (record) => console.error(...formatRecord(record)),
+};
+
+/**
+ * Default level: warnings and errors in development, nothing in production builds
+ */
+export function getDefaultLogLevel(): LogLevel {
+  return typeof __DEV__ !== "undefined" && __DEV__ ? "warn" : "silent";
+}
+
+/**
+ * Current logger and level, changed through setLogger / setLogLevel
+ */
+export const loggerState: { logger: MediaControlLogger; level: LogLevel } = {
+  logger: consoleLogger,
+  level: getDefaultLogLevel(),
+};
+
+// =============================================
+// INTERNAL LOGGING
+// =============================================
+
+/**
+ * Whether records of a level are currently emitted
+ * Use to skip building expensive log data
+ */
+export function isLogLevelEnabled(level: Exclude<LogLevel, "silent">): boolean {
+  return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[loggerState.level];
+}
+
+/**
+ * Send a record to the current logger if its level is enabled
+ */
+function emit(
+  level: Exclude<LogLevel, "silent">,
+  message: string,
+  fields?: LogFields,
+): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  try {
+    loggerState.logger[level]?.({
+      ...fields,
+      level,
+      message,
+      timestamp: Date.now(),
+    });
+  } catch {
+    // A failing logger must never break media controls
+  }
+}
+
+/**
+ * Internal logging entry points used across the module
+ */
+export const log = {
+  debug: (message: string, fields?: LogFields) =>
+    emit("debug", message, fields),
+  info: (message: string, fields?: LogFields) => emit("info", message, fields),
+  warn: (message: string, fields?: LogFields) => emit("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    emit("error", message, fields),
+};
@@ -0,0 +1,196 @@
+import {
+  COLOR_PATTERN,
+  Command,
+  DATE_PATTERN,
+  isBooleanRatingType,
+  MAX_PLAYBACK_RATE,
+  MAX_SKIP_INTERVAL,
+  MEDIA_TYPES,
+  NON_COMPACT_COMMANDS,
+  RATING_MAX_VALUES,
+  RatingType,
+} from "./ExpoMediaControlModule";
+
+// =============================================
+// JSON SCHEMAS
+// Mirror the checks of validateMetadata / validateMediaControlOptions so a
+// server can validate payloads before sending them to the app
+// =============================================
+
+const JSON_SCHEMA_DRAFT = "http://json-schema.org/draft-07/schema#";
+
+const nonNegativeNumber = { type: "number", minimum: 0 };
+
+const colorSchema = { type: "string", pattern: COLOR_PATTERN.source };
+
+/**
+ * Artwork URIs: http(s), file, content (Android), base64 image data URIs,
+ * absolute paths and bundled image names. Bundled assets from require() are
+ * module ids that only exist on the device, so they are not accepted here.
+ */
+const artworkUriPattern =
+  "^(?:(?:https?|file|content):|data:image/[\\w.+-]+;base64,|/|(?![A-Za-z][A-Za-z0-9+.-]*:))";
+
+const artworkSchema = {
+  type: "object",
+  properties: {
+    uri: { type: "string", minLength: 1, pattern: artworkUriPattern },
+    width: nonNegativeNumber,
+    height: nonNegativeNumber,
+  },
+  required: ["uri"],
+};
+
+/**
+ * Rating value rules per type: booleans for heart/thumbs, a bounded number otherwise
+ * maxValue cannot be compared against in JSON Schema, so numeric ratings that
+ * set it are only checked for being non-negative
+ */
+const ratingRules = Object.values(RatingType).map((type) => ({
+  if: { properties: { type: { const: type } } },
+  then: isBooleanRatingType(type)
+    ? { properties: { value: { type: "boolean" } } }
+    : {
+        properties: {
+          value: { type: "number", minimum: 0 },
+          maxValue: { type: "number", exclusiveMinimum: 0 },
+        },
+        if: { not: { required: ["maxValue"] } },
+        then: {
+          properties: { value: { maximum: RATING_MAX_VALUES[type] } },
+        },
+      },
+}));
+
+const ratingSchema = {
+  type: "object",
+  properties: {
+    type: { enum: Object.values(RatingType) },
+    value: { type: ["boolean", "number"] },
+    maxValue: { type: "number" },
+  },
+  required: ["type", "value"],
+  allOf: ratingRules,
+};
+
+const commandListSchema = {
+  type: "array",
+  items: { enum: Object.values(Command) },
+};
+
+const platformOptionsSchema = {
+  type: "object",
+  properties: {
+    skipInterval: {
+      type: "number",
+      exclusiveMinimum: 0,
+      maximum: MAX_SKIP_INTERVAL,
+    },
+  },
+};
+
+/**
+ * JSON Schema (draft-07) for `MediaMetadata`
+ */
+export const mediaMetadataSchema = {
+  $schema: JSON_SCHEMA_DRAFT,
+  title: "MediaMetadata",
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    artist: { type: "string" },
+    artists: { type: "array", items: { type: "string" } },
+    album: { type: "string" },
+    albumArtist: { type: "string" },
+    composer: { type: "string" },
+    showName: { type: "string" },
+    episodeNumber: nonNegativeNumber,
+    seasonNumber: nonNegativeNumber,
+    description: { type: "string" },
+    artwork: artworkSchema,
+    duration: nonNegativeNumber,
+    elapsedTime: nonNegativeNumber,
+    genre: { type: "string" },
+    trackNumber: nonNegativeNumber,
+    albumTrackCount: nonNegativeNumber,
+    date: { type: "string", pattern: DATE_PATTERN.source },
+    publishDate: { type: "string", pattern: DATE_PATTERN.source },
+    rating: ratingSchema,
+    color: colorSchema,
+    colorized: { type: "boolean" },
+    isLiveStream: { type: "boolean" },
+    isExplicit: { type: "boolean" },
+    mediaType: { enum: MEDIA_TYPES },
+    chapters: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          startTime: nonNegativeNumber,
+          endTime: { type: "number" },
+          artwork: artworkSchema,
+        },
+        required: ["title", "startTime"],
+      },
+    },
+  },
+};
+
+/**
+ * JSON Schema (draft-07) for `MediaControlOptions`
+ */
+export const mediaControlOptionsSchema = {
+  $schema: JSON_SCHEMA_DRAFT,
+  title: "MediaControlOptions",
+  type: "object",
+  properties: {
+    capabilities: commandListSchema,
+    compactCapabilities: {
+      type: "array",
+      items: {
+        enum: Object.values(Command).filter(
+          (command) => !NON_COMPACT_COMMANDS.includes(command),
+        ),
+      },
+      maxItems: 3,
+    },
+    customActions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", minLength: 1 },
+          title: { type: "string", minLength: 1 },
+          icon: { type: "string", minLength: 1 },
+          showInCompact: { type: "boolean" },
+        },
+        required: ["id", "title", "icon"],
+      },
+    },
+    supportedPlaybackRates: {
+      type: "array",
+      items: { type: "number", minimum: 0, maximum: MAX_PLAYBACK_RATE },
+      uniqueItems: true,
+    },
+    artworkCache: {
+      type: "object",
+      properties: {
+        maxBytes: { type: "integer", minimum: 0 },
+        maxEntries: { type: "integer", minimum: 0 },
+        ttl: nonNegativeNumber,
+      },
+    },
+    notification: {
+      type: "object",
+      properties: {
+        icon: { type: "string" },
+        largeIcon: artworkSchema,
+        color: colorSchema,
+        showWhenClosed: { type: "boolean" },
+      },
+    },
+    ios: platformOptionsSchema,
+    android: platformOptionsSchema,
+  },
+};
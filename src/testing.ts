@@ -0,0 +1,398 @@
+import {
+  _setNativeModuleForTesting,
+  ArtworkCacheStats,
+  Command,
+  CustomAction,
+  EventBufferOptions,
+  ExpoMediaControlNativeModule,
+  FeedbackState,
+  MediaControlOptions,
+  MediaMetadata,
+  MetadataPatch,
+  NativeEventSubscription,
+  NativeQueueItem,
+  PlaybackState,
+  RepeatMode,
+  ShuffleMode,
+  VolumeChange,
+  VolumeState,
+} from "./ExpoMediaControlModule";
+import { _resetSessionsForTesting } from "./MediaSession";
+
+// =============================================
+// FAKE NATIVE MODULE
+// =============================================
+
+/**
+ * A call recorded by the fake native module
+ */
+export interface FakeNativeCall {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * In-memory implementation of the native module contract
+ *
+ * Stores whatever JS sends it, mirrors the native defaults (e.g. playback rate
+ * when omitted) and keeps a listener registry so remote commands can be simulated.
+ */
+export class FakeExpoMediaControlModule
+  implements ExpoMediaControlNativeModule
+{
+  enabled: boolean = false;
+  options: MediaControlOptions | null = null;
+  metadata: MediaMetadata | null = null;
+  state: PlaybackState = PlaybackState.NONE;
+  position: number = 0;
+  playbackRate: number = 1.0;
+  queue: NativeQueueItem[] = [];
+  activeQueueIndex: number = -1;
+  customActions: CustomAction[] = [];
+  shuffleMode: ShuffleMode = "off";
+  repeatMode: RepeatMode = "off";
+  feedback: FeedbackState = {
+    liked: false,
+    disliked: false,
+    bookmarked: false,
+  };
+  volume: VolumeState = {
+    volume: 0.5,
+    muted: false,
+    streamType: "music",
+    maxSteps: 15,
+  };
+  /** Artwork URIs in the fake cache, from prefetches and metadata updates */
+  cachedArtwork = new Set<string>();
+  /** Artwork URIs that fail to load, so prefetchArtwork rejects for them */
+  unavailableArtwork = new Set<string>();
+  artworkCacheHits: number = 0;
+  artworkCacheMisses: number = 0;
+  /** Settings of the native event buffer, null until JS configures it */
+  eventBufferOptions: Required<EventBufferOptions> | null = null;
+
+  /** Every call made to the fake, in order */
+  calls: FakeNativeCall[] = [];
+
+  private listeners = new Map<string, Set<(event: any) => void>>();
+
+  async enableMediaControls(options?: MediaControlOptions): Promise<void> {
+    this.record("enableMediaControls", options);
+    this.enabled = true;
+    this.options = options ?? null;
+    this.customActions = options?.customActions ?? [];
+  }
+
+  async disableMediaControls(): Promise<void> {
+    this.record("disableMediaControls");
+    this.enabled = false;
+    this.options = null;
+    this.customActions = [];
+    this.clearSession();
+    this.clearArtwork();
+  }
+
+  async updateMetadata(metadata: MediaMetadata): Promise<void> {
+    this.record("updateMetadata", metadata);
+    this.metadata = { ...metadata };
+    if (metadata.artwork) {
+      this.loadArtwork((metadata.artwork as { uri: string }).uri);
+    }
+  }
+
+  async patchMetadata(changes: MetadataPatch): Promise<void> {
+    this.record("patchMetadata", changes);
+    const merged: Record<string, unknown> = { ...this.metadata };
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete merged[key];
+      } else {
+        merged[key] = value;
+      }
+    }
+    this.metadata = merged as MediaMetadata;
+    if (changes.artwork) {
+      this.loadArtwork((changes.artwork as { uri: string }).uri);
+    }
+  }
+
+  async updatePlaybackState(
+    state: PlaybackState,
+    position?: number,
+    playbackRate?: number,
+  ): Promise<void> {
+    this.record("updatePlaybackState", state, position, playbackRate);
+    this.state = state;
+    if (position !== undefined) {
+      this.position = position;
+    }
+    this.playbackRate =
+      playbackRate ?? (state === PlaybackState.PLAYING ? 1.0 : 0.0);
+  }
+
+  async resetControls(): Promise<void> {
+    this.record("resetControls");
+    this.clearSession();
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return this.enabled;
+  }
+
+  async getCurrentMetadata(): Promise<MediaMetadata | null> {
+    return this.metadata;
+  }
+
+  async getCurrentState(): Promise<PlaybackState> {
+    return this.state;
+  }
+
+  async updateQueue(
+    items: NativeQueueItem[],
+    activeIndex: number,
+  ): Promise<void> {
+    this.record("updateQueue", items, activeIndex);
+    this.queue = [...items];
+    this.activeQueueIndex = activeIndex;
+  }
+
+  async updateCustomActions(actions: CustomAction[]): Promise<void> {
+    this.record("updateCustomActions", actions);
+    this.customActions = [...actions];
+  }
+
+  async setShuffleMode(mode: ShuffleMode): Promise<void> {
+    this.record("setShuffleMode", mode);
+    this.shuffleMode = mode;
+  }
+
+  async setRepeatMode(mode: RepeatMode): Promise<void> {
+    this.record("setRepeatMode", mode);
+    this.repeatMode = mode;
+  }
+
+  async setFeedbackState(state: FeedbackState): Promise<void> {
+    this.record("setFeedbackState", state);
+    this.feedback = { ...state };
+  }
+
+  async getVolume(): Promise<VolumeState> {
+    return { ...this.volume };
+  }
+
+  async setVolume(level: number): Promise<void> {
+    this.record("setVolume", level);
+    const maxSteps = this.volume.maxSteps ?? 100;
+    const volume = Math.round(level * maxSteps) / maxSteps;
+    this.volume = { ...this.volume, volume, muted: volume === 0 };
+    // Android reports programmatic changes too, flagged as not user-initiated
+    this.emit("volumeChange", { ...this.volume, userInitiated: false });
+  }
+
+  async prefetchArtwork(uri: string): Promise<void> {
+    this.record("prefetchArtwork", uri);
+    if (!this.loadArtwork(uri)) {
+      throw new Error(`could not load ${uri}`);
+    }
+  }
+
+  async clearArtworkCache(): Promise<void> {
+    this.record("clearArtworkCache");
+    this.clearArtwork();
+  }
+
+  async getArtworkCacheStats(): Promise<ArtworkCacheStats> {
+    // The fake does not decode images, so it reports no memory use
+    return {
+      entries: this.cachedArtwork.size,
+      bytes: 0,
+      hits: this.artworkCacheHits,
+      misses: this.artworkCacheMisses,
+    };
+  }
+
+  async configureEventBuffer(
+    options: Required<EventBufferOptions>,
+  ): Promise<void> {
+    this.record("configureEventBuffer", options);
+    this.eventBufferOptions = { ...options };
+  }
+
+  addListener(
+    eventName: string,
+    listener: (event: any) => void,
+  ): NativeEventSubscription {
+    const listeners = this.listeners.get(eventName) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(eventName, listeners);
+
+    return {
+      remove: () => {
+        this.listeners.get(eventName)?.delete(listener);
+      },
+    };
+  }
+
+  removeAllListeners(eventName: string): void {
+    this.listeners.delete(eventName);
+  }
+
+  /**
+   * Send an event to every JS subscriber, as the native module would
+   */
+  emit(eventName: string, payload: unknown): void {
+    this.listeners.get(eventName)?.forEach((listener) => listener(payload));
+  }
+
+  /**
+   * Number of JS subscribers for an event
+   */
+  listenerCount(eventName: string): number {
+    return this.listeners.get(eventName)?.size ?? 0;
+  }
+
+  private record(method: string, ...args: unknown[]): void {
+    this.calls.push({ method, args });
+  }
+
+  /**
+   * Look an artwork URI up in the fake cache, adding it when it loads
+   * @returns Whether the artwork is available
+   */
+  private loadArtwork(uri: string): boolean {
+    if (this.cachedArtwork.has(uri)) {
+      this.artworkCacheHits += 1;
+      return true;
+    }
+    this.artworkCacheMisses += 1;
+    if (this.unavailableArtwork.has(uri)) {
+      return false;
+    }
+    this.cachedArtwork.add(uri);
+    return true;
+  }
+
+  private clearArtwork(): void {
+    this.cachedArtwork.clear();
+    this.artworkCacheHits = 0;
+    this.artworkCacheMisses = 0;
+  }
+
+  private clearSession(): void {
+    this.metadata = null;
+    this.state = PlaybackState.NONE;
+    this.position = 0;
+    this.playbackRate = 1.0;
+    this.queue = [];
+    this.activeQueueIndex = -1;
+    this.shuffleMode = "off";
+    this.repeatMode = "off";
+    this.feedback = { liked: false, disliked: false, bookmarked: false };
+  }
+}
+
+// =============================================
+// TEST HELPERS
+// =============================================
+
+/**
+ * Fake currently installed in place of the native module
+ */
+let installedFake: FakeExpoMediaControlModule | null = null;
+
+/**
+ * Get the installed fake, throwing when none is installed
+ */
+function requireInstalledFake(): FakeExpoMediaControlModule {
+  if (!installedFake) {
+    throw new Error(
+      "No fake native module installed. Call installFakeNativeModule() first.",
+    );
+  }
+  return installedFake;
+}
+
+/**
+ * Replace the native module with an in-memory fake and reset all JS-side state
+ * Call it in `beforeEach` so every test starts from a clean session
+ * @param fake - Fake to install (a new one by default)
+ * @returns The installed fake
+ */
+export function installFakeNativeModule(
+  fake: FakeExpoMediaControlModule = new FakeExpoMediaControlModule(),
+): FakeExpoMediaControlModule {
+  _setNativeModuleForTesting(fake);
+  _resetSessionsForTesting();
+  installedFake = fake;
+  return fake;
+}
+
+/**
+ * Remove the installed fake so the real native module is used again
+ */
+export function uninstallFakeNativeModule(): void {
+  _setNativeModuleForTesting(null);
+  _resetSessionsForTesting();
+  installedFake = null;
+}
+
+/**
+ * Get the installed fake native module
+ */
+export function getFakeNativeModule(): FakeExpoMediaControlModule {
+  return requireInstalledFake();
+}
+
+/**
+ * Simulate a remote command, as if pressed on the lock screen, a headset or a car
+ * Listeners only receive it once media controls are enabled, like on a device
+ * @param command - The command to send
+ * @param data - Native payload, e.g. `{ position: 30 }` for SEEK
+ */
+export function simulateRemoteCommand(
+  command: Command,
+  data?: Record<string, unknown>,
+): void {
+  const fake = requireInstalledFake();
+  // Native only registers remote command handlers while controls are enabled
+  if (!fake.enabled) {
+    return;
+  }
+  fake.emit("mediaControlEvent", {
+    command,
+    data: data ?? null,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Simulate a system volume change, e.g. a hardware button press
+ * Updates the fake's volume so getVolume() reflects the change
+ */
+export function simulateVolumeChange(
+  change: Partial<VolumeChange> & { volume: number },
+): void {
+  const fake = requireInstalledFake();
+  const { userInitiated = true, ...state } = change;
+  fake.volume = { ...fake.volume, muted: state.volume === 0, ...state };
+  fake.emit("volumeChange", { ...fake.volume, userInitiated });
+}
+
+/**
+ * Get the metadata last sent to the fake native module
+ */
+export function getLastMetadata(): MediaMetadata | null {
+  return requireInstalledFake().metadata;
+}
+
+/**
+ * Get the playback state last sent to the fake native module
+ */
+export function getLastPlaybackState(): {
+  state: PlaybackState;
+  position: number;
+  playbackRate: number;
+} {
+  const { state, position, playbackRate } = requireInstalledFake();
+  return { state, position, playbackRate };
+}
@@ -0,0 +1,690 @@
+// =============================================
+// TYPE DEFINITIONS
+// =============================================
+
+/**
+ * Represents the current state of media playback
+ */
+export enum PlaybackState {
+  NONE = 0,
+  STOPPED = 1,
+  PLAYING = 2,
+  PAUSED = 3,
+  BUFFERING = 4,
+  ERROR = 5,
+}
+
+/**
+ * Represents different types of media control commands
+ */
+export enum Command {
+  PLAY = "play",
+  PAUSE = "pause",
+  STOP = "stop",
+  NEXT_TRACK = "nextTrack",
+  PREVIOUS_TRACK = "previousTrack",
+  SKIP_FORWARD = "skipForward",
+  SKIP_BACKWARD = "skipBackward",
+  SEEK = "seek",
+  SET_RATING = "setRating",
+  VOLUME_UP = "volumeUp",
+  VOLUME_DOWN = "volumeDown",
+  SKIP_TO_QUEUE_ITEM = "skipToQueueItem",
+  TOGGLE_PLAY_PAUSE = "togglePlayPause",
+  CUSTOM = "custom",
+  SET_SHUFFLE_MODE = "setShuffleMode",
+  SET_REPEAT_MODE = "setRepeatMode",
+  CHANGE_PLAYBACK_RATE = "changePlaybackRate",
+  LIKE = "like",
+  DISLIKE = "dislike",
+  BOOKMARK = "bookmark",
+}
+
+/**
+ * Rating types for media content
+ */
+export enum RatingType {
+  HEART = "heart",
+  THUMBS_UP_DOWN = "thumbsUpDown",
+  THREE_STARS = "threeStars",
+  FOUR_STARS = "fourStars",
+  FIVE_STARS = "fiveStars",
+  PERCENTAGE = "percentage",
+}
+
+/**
+ * Represents artwork/album cover information
+ */
+export interface MediaArtwork {
+  /** http(s):, file: or base64 data: URI, an absolute path, or the name of a bundled image */
+  uri: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Artwork object, or a bundled image from `require('./cover.png')`
+ */
+export type ArtworkSource = MediaArtwork | number;
+
+/**
+ * Kind of content being played
+ */
+export type MediaType = "music" | "podcast" | "audiobook" | "radio" | "video";
+
+/**
+ * Represents rating information for media content
+ */
+export interface MediaRating {
+  type: RatingType;
+  value: boolean | number;
+  maxValue?: number;
+}
+
+/**
+ * A chapter (or cue point) within the current media
+ */
+export interface MediaChapter {
+  title: string;
+  /** Start of the chapter in seconds */
+  startTime: number;
+  /** End of the chapter in seconds (defaults to the next chapter's start) */
+  endTime?: number;
+  /** Artwork shown while the chapter plays */
+  artwork?: ArtworkSource;
+}
+
+/**
+ * Complete media metadata information
+ */
+export interface MediaMetadata {
+  title?: string;
+  artist?: string;
+  /** All artists of the track; shown joined when `artist` is not set */
+  artists?: string[];
+  album?: string;
+  albumArtist?: string;
+  composer?: string;
+  /** Podcast or audiobook series name, shown in place of `album` when that is not set */
+  showName?: string;
+  episodeNumber?: number;
+  seasonNumber?: number;
+  /** Episode or chapter summary */
+  description?: string;
+  artwork?: ArtworkSource;
+  duration?: number;
+  elapsedTime?: number;
+  genre?: string;
+  trackNumber?: number;
+  albumTrackCount?: number;
+  date?: string;
+  /** Release date of the episode or track (ISO 8601) */
+  publishDate?: string;
+  rating?: MediaRating;
+  color?: string;
+  colorized?: boolean;
+  isLiveStream?: boolean;
+  isExplicit?: boolean;
+  mediaType?: MediaType;
+  /** Chapters used by chapter mode; kept in JS and not sent to native */
+  chapters?: MediaChapter[];
+}
+
+/**
+ * An entry in the playback queue
+ */
+export interface QueueItem {
+  /** Unique identifier of the item within the queue */
+  id: string;
+  metadata: MediaMetadata;
+}
+
+/**
+ * Partial metadata update
+ * Omitted (undefined) fields keep their current value, null clears a field
+ */
+export type MetadataPatch = {
+  [K in keyof MediaMetadata]?: MediaMetadata[K] | null;
+};
+
+/**
+ * App-defined button for the system media controls
+ */
+export interface CustomAction {
+  /** Unique identifier, reported in CUSTOM events */
+  id: string;
+  /** Label shown by the system (accessibility label on Android, command title on iOS) */
+  title: string;
+  /** Android drawable resource name, e.g. "ic_heart_outline" (unused on iOS) */
+  icon: string;
+  /** Show the action in the compact notification view (Android) */
+  showInCompact?: boolean;
+}
+
+/**
+ * Limits for the native artwork cache
+ * Setting maxEntries or maxBytes to 0 turns caching off
+ */
+export interface ArtworkCacheOptions {
+  /** Decoded size of all cached images in bytes (default: 32 MB) */
+  maxBytes?: number;
+  /** Number of cached images (default: 20) */
+  maxEntries?: number;
+  /** Seconds an image stays cached after loading, 0 for no expiry (default: 3600) */
+  ttl?: number;
+}
+
+/**
+ * Contents and counters of the native artwork cache
+ */
+export interface ArtworkCacheStats {
+  /** Number of cached images */
+  entries: number;
+  /** Decoded size of the cached images in bytes */
+  bytes: number;
+  /** Requests served from the cache or from a load already in progress */
+  hits: number;
+  /** Requests that started a load */
+  misses: number;
+}
+
+/**
+ * Configuration options for media controls
+ *
+ * Note: Audio focus management should be handled by your media player,
+ * not by this control module.
+ */
+export interface MediaControlOptions {
+  capabilities?: Command[];
+  compactCapabilities?: Command[];
+  customActions?: CustomAction[];
+  /**
+   * Rates offered for CHANGE_PLAYBACK_RATE, e.g. [0.5, 1, 1.5, 2]
+   * (iOS; defaults to 0.5–2 in quarter steps). Android surfaces request any rate.
+   */
+  supportedPlaybackRates?: number[];
+  /** Limits for cached artwork, which is kept across metadata updates and prefetches */
+  artworkCache?: ArtworkCacheOptions;
+  notification?: {
+    icon?: string;
+    largeIcon?: ArtworkSource;
+    color?: string;
+    showWhenClosed?: boolean;
+  };
+  ios?: {
+    skipInterval?: number;
+  };
+  android?: {
+    skipInterval?: number;
+  };
+}
+
+/**
+ * Payload of a SEEK command
+ */
+export interface SeekEventData {
+  /** Target position in seconds */
+  position: number;
+}
+
+/**
+ * Payload of a SKIP_FORWARD or SKIP_BACKWARD command
+ */
+export interface SkipEventData {
+  /** Skip interval in seconds */
+  interval: number;
+}
+
+/**
+ * Payload of a SET_RATING command
+ */
+export interface SetRatingEventData {
+  rating: MediaRating;
+}
+
+/**
+ * Queue context attached to NEXT_TRACK and PREVIOUS_TRACK when a queue is set
+ * The queue (and the system controls) have already moved to `targetItem` when listeners receive the event
+ */
+export interface QueueTransitionEventData {
+  /** The item that was active when the command arrived */
+  currentItem: QueueItem | null;
+  /** The item the command moved to, or null at either end of the queue or when publishing failed */
+  targetItem: QueueItem | null;
+}
+
+/**
+ * Payload of a SKIP_TO_QUEUE_ITEM command, sent when an item is picked from
+ * the system queue UI (e.g. Android Auto)
+ */
+export interface SkipToQueueItemEventData extends QueueTransitionEventData {
+  /** Id of the requested queue item */
+  id: string;
+}
+
+/**
+ * Payload of a CUSTOM command
+ */
+export interface CustomActionEventData {
+  /** Id of the custom action that was pressed */
+  id: string;
+}
+
+/**
+ * Shuffle mode of the session
+ * "group" shuffles groups (e.g. albums) while keeping the order within each
+ */
+export type ShuffleMode = "off" | "all" | "group";
+
+/**
+ * Repeat mode of the session
+ */
+export type RepeatMode = "off" | "one" | "all";
+
+/**
+ * Payload of a SET_SHUFFLE_MODE command
+ */
+export interface SetShuffleModeEventData {
+  /** Shuffle mode requested by the user */
+  mode: ShuffleMode;
+}
+
+/**
+ * Payload of a SET_REPEAT_MODE command
+ */
+export interface SetRepeatModeEventData {
+  /** Repeat mode requested by the user */
+  mode: RepeatMode;
+}
+
+/**
+ * Like, dislike and bookmark state of the current track
+ */
+export interface FeedbackState {
+  liked: boolean;
+  disliked: boolean;
+  bookmarked: boolean;
+}
+
+/**
+ * Payload of a LIKE, DISLIKE or BOOKMARK command
+ */
+export interface FeedbackEventData {
+  /** True when the user turned the feedback on, false when they took it back */
+  isActive: boolean;
+}
+
+/**
+ * Payload of a CHANGE_PLAYBACK_RATE command
+ */
+export interface ChangePlaybackRateEventData {
+  /** Playback rate requested by the user, 1 being normal speed */
+  rate: number;
+}
+
+/**
+ * Payload type carried by each command
+ * Commands without a payload map to undefined
+ */
+export interface MediaControlEventDataMap {
+  [Command.PLAY]: undefined;
+  [Command.PAUSE]: undefined;
+  [Command.STOP]: undefined;
+  [Command.NEXT_TRACK]: QueueTransitionEventData | undefined;
+  [Command.PREVIOUS_TRACK]: QueueTransitionEventData | undefined;
+  [Command.SKIP_FORWARD]: SkipEventData;
+  [Command.SKIP_BACKWARD]: SkipEventData;
+  [Command.SEEK]: SeekEventData;
+  [Command.SET_RATING]: SetRatingEventData;
+  [Command.VOLUME_UP]: undefined;
+  [Command.VOLUME_DOWN]: undefined;
+  [Command.SKIP_TO_QUEUE_ITEM]: SkipToQueueItemEventData;
+  [Command.TOGGLE_PLAY_PAUSE]: undefined;
+  [Command.CUSTOM]: CustomActionEventData;
+  [Command.SET_SHUFFLE_MODE]: SetShuffleModeEventData;
+  [Command.SET_REPEAT_MODE]: SetRepeatModeEventData;
+  [Command.CHANGE_PLAYBACK_RATE]: ChangePlaybackRateEventData;
+  [Command.LIKE]: FeedbackEventData;
+  [Command.DISLIKE]: FeedbackEventData;
+  [Command.BOOKMARK]: FeedbackEventData;
+}
+
+/**
+ * Media control event data
+ * Discriminated on `command`, so narrowing the command narrows `data`
+ */
+export type MediaControlEvent<C extends Command = Command> = {
+  [K in C]: {
+    command: K;
+    data: MediaControlEventDataMap[K];
+    timestamp: number;
+  };
+}[C];
+
+/**
+ * Audio stream a volume applies to
+ * Android reports the media stream; iOS reports the current output route
+ */
+export type VolumeStreamType = "music" | "output";
+
+/**
+ * System volume information
+ */
+export interface VolumeState {
+  /** Volume from 0.0 to 1.0 */
+  volume: number;
+  /** Whether the stream is muted */
+  muted: boolean;
+  streamType: VolumeStreamType;
+  /** Number of discrete volume steps (Android only) */
+  maxSteps?: number;
+}
+
+/**
+ * Volume change information
+ */
+export interface VolumeChange extends VolumeState {
+  /** False when the change was made through setVolume */
+  userInitiated: boolean;
+}
+
+/**
+ * JS-side view of the media session, updated after every successful call
+ */
+export interface MediaControlSnapshot {
+  isEnabled: boolean;
+  metadata: MediaMetadata | null;
+  state: PlaybackState;
+  position: number;
+  playbackRate: number;
+  /** Time (ms since epoch) at which `position` was last sent to native */
+  positionUpdatedAt: number;
+  shuffleMode: ShuffleMode;
+  repeatMode: RepeatMode;
+  feedback: FeedbackState;
+}
+
+/**
+ * Playback progress reported to progress listeners
+ */
+export interface PlaybackProgress {
+  /** Estimated position in seconds */
+  position: number;
+  /** Track duration in seconds, when known from metadata */
+  duration?: number;
+  state: PlaybackState;
+}
+
+/**
+ * Playback state transition reported to state change listeners
+ */
+export interface StateChangeEvent {
+  previousState: PlaybackState;
+  nextState: PlaybackState;
+  /** Time (ms since epoch) of the change */
+  timestamp: number;
+}
+
+/**
+ * What happens when metadata or playback state is updated before media
+ * controls are enabled
+ * - throw: reject with a NotEnabledError
+ * - autoEnable: enable media controls first, then apply the update
+ */
+export type EnableGuardBehavior = "throw" | "autoEnable";
+
+/**
+ * Options for the enabled-state guard
+ */
+export interface EnableGuardOptions {
+  /** Behavior when controls are not enabled (default: "throw") */
+  behavior?: EnableGuardBehavior;
+  /** Options passed to enableMediaControls when auto-enabling */
+  autoEnableOptions?: MediaControlOptions;
+}
+
+/**
+ * How invalid metadata and options are handled
+ * - strict: throw a ValidationError listing every issue
+ * - lenient: drop the invalid fields, log a warning and continue
+ */
+export type ValidationMode = "strict" | "lenient";
+
+/**
+ * Options for input validation
+ */
+export interface ValidationOptions {
+  /** Validation mode (default: "strict") */
+  mode?: ValidationMode;
+}
+
+/**
+ * Options for playback state transition checks
+ */
+export interface StateMachineOptions {
+  /** Check transitions passed to updatePlaybackState (default: true) */
+  validateTransitions?: boolean;
+  /** Throw a ValidationError on illegal transitions instead of warning (default: false) */
+  strict?: boolean;
+}
+
+/**
+ * Handle returned by listener APIs
+ * Call it directly or call `.remove()`; removing twice is a no-op
+ */
+export interface EventSubscription {
+  (): void;
+  remove(): void;
+}
+
+/**
+ * Listener categories that removeAllListeners can clear
+ */
+export type ListenerType =
+  | "mediaControl"
+  | "volumeChange"
+  | "stateChange"
+  | "progress"
+  | "snapshot";
+
+// Event listener types
+export type MediaControlEventListener = (event: MediaControlEvent) => void;
+export type CommandListener<C extends Command> = (
+  event: MediaControlEvent<C>,
+) => void;
+export type VolumeChangeListener = (change: VolumeChange) => void;
+export type StateChangeListener = (event: StateChangeEvent) => void;
+export type SnapshotListener = (snapshot: MediaControlSnapshot) => void;
+export type ProgressListener = (progress: PlaybackProgress) => void;
+
+/**
+ * Options for the pending-event buffer
+ */
+export interface EventBufferOptions {
+  /** Buffer events that arrive while no listener is registered (default: true) */
+  enabled?: boolean;
+  /** Max number of buffered events; the oldest are dropped first (default: 10) */
+  maxSize?: number;
+  /** Time in ms after which a buffered event is discarded (default: 5000) */
+  ttl?: number;
+}
+
+/**
+ * Passes an event on to the next middleware, or to listeners at the end of the chain
+ */
+export type MediaControlEventNext = (event: MediaControlEvent) => void;
+
+/**
+ * Middleware run on every media control event before it reaches listeners
+ * Call `next` with the event (or a replacement) to pass it on; skip it to drop the event.
+ * `next` may be called later to delay an event.
+ */
+export type MediaControlMiddleware = (
+  event: MediaControlEvent,
+  next: MediaControlEventNext,
+) => void | Promise<void>;
+
+// =============================================
+// NATIVE MODULE INTERFACE
+// =============================================
+
+/**
+ * Subscription returned by the native module's addListener
+ */
+export interface NativeEventSubscription {
+  remove(): void;
+}
+
+/**
+ * Native module interface for Expo Media Control
+ * This interface defines all the methods that the native iOS and Android modules must implement
+ * (and that `expo-media-control/testing` fakes in JS)
+ */
+export interface ExpoMediaControlNativeModule {
+  /**
+   * Enable media controls with specified configuration
+   * Initializes the media session and sets up remote control handlers
+   */
+  enableMediaControls(options?: MediaControlOptions): Promise<void>;
+
+  /**
+   * Disable media controls and clean up all resources
+   * Stops the media session and removes all handlers
+   */
+  disableMediaControls(): Promise<void>;
+
+  /**
+   * Update the media metadata displayed in system controls
+   * Updates notification, lock screen, and control center information
+   */
+  updateMetadata(metadata: MediaMetadata): Promise<void>;
+
+  /**
+   * Merge changed fields into the current metadata
+   * Fields set to null are removed; artwork is only reloaded when its URI changes
+   */
+  patchMetadata(changes: MetadataPatch): Promise<void>;
+
+  /**
+   * Update the current playback state and position
+   * Updates the system about current playback status
+   * @param state - The playback state
+   * @param position - The current position in seconds (optional)
+   * @param playbackRate - The playback rate/speed (optional, defaults to 1.0 when playing, 0.0 otherwise)
+   */
+  updatePlaybackState(
+    state: PlaybackState,
+    position?: number,
+    playbackRate?: number,
+  ): Promise<void>;
+
+  /**
+   * Reset all media control information to default state
+   * Clears all metadata and resets playback state
+   */
+  resetControls(): Promise<void>;
+
+  /**
+   * Check if media controls are currently enabled
+   * Returns whether the media session is active
+   */
+  isEnabled(): Promise<boolean>;
+
+  /**
+   * Get the current media metadata
+   * Returns the currently set metadata information
+   */
+  getCurrentMetadata(): Promise<MediaMetadata | null>;
+
+  /**
+   * Get the current playback state
+   * Returns the current playback status
+   */
+  getCurrentState(): Promise<PlaybackState>;
+
+  /**
+   * Publish the playback queue to the system media session
+   * @param items - Queue entries in display order
+   * @param activeIndex - Index of the active item, or -1 when none is active
+   */
+  updateQueue(items: NativeQueueItem[], activeIndex: number): Promise<void>;
+
+  /**
+   * Replace the custom actions shown by the system controls
+   * @param actions - Custom actions in display order
+   */
+  updateCustomActions(actions: CustomAction[]): Promise<void>;
+
+  /**
+   * Publish the current shuffle mode to the system session
+   */
+  setShuffleMode(mode: ShuffleMode): Promise<void>;
+
+  /**
+   * Publish the current repeat mode to the system session
+   */
+  setRepeatMode(mode: RepeatMode): Promise<void>;
+
+  /**
+   * Publish the like, dislike and bookmark state to the system session
+   */
+  setFeedbackState(state: FeedbackState): Promise<void>;
+
+  /**
+   * Get the current system volume
+   */
+  getVolume(): Promise<VolumeState>;
+
+  /**
+   * Load artwork into the cache (rejects when it cannot be loaded)
+   * @param uri - Resolved artwork URI
+   */
+  prefetchArtwork(uri: string): Promise<void>;
+
+  /**
+   * Remove all cached artwork and reset the cache counters
+   */
+  clearArtworkCache(): Promise<void>;
+
+  /**
+   * Get the contents and counters of the artwork cache
+   */
+  getArtworkCacheStats(): Promise<ArtworkCacheStats>;
+
+  /**
+   * Apply the event buffer options to events kept natively until JS listens
+   */
+  configureEventBuffer(options: Required<EventBufferOptions>): Promise<void>;
+
+  /**
+   * Set the system volume (rejects where the platform does not allow it, e.g. iOS)
+   * @param level - Volume from 0.0 to 1.0
+   */
+  setVolume(level: number): Promise<void>;
+
+  /**
+   * Subscribe to an event sent by the native module
+   * Events: "mediaControlEvent" for remote commands, "volumeChange" for volume changes
+   */
+  addListener(
+    eventName: string,
+    listener: (event: any) => void,
+  ): NativeEventSubscription;
+
+  /**
+   * Remove all subscriptions for an event sent by the native module
+   */
+  removeAllListeners(eventName: string): void;
+}
+
+/**
+ * Queue entry as sent to the native module
+ * Only the fields the system queue UI can display
+ */
+export interface NativeQueueItem {
+  id: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  artworkUri?: string;
+}
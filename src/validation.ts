@@ -0,0 +1,1212 @@
+import { Image, Platform } from "react-native";
+
+import {
+  ValidationError,
+  ValidationIssue,
+  ValidationIssueCode,
+} from "./errors";
+import { log } from "./logger";
+import {
+  ArtworkSource,
+  Command,
+  MediaArtwork,
+  MediaControlOptions,
+  MediaMetadata,
+  MediaType,
+  MetadataPatch,
+  PlaybackState,
+  QueueItem,
+  RatingType,
+  RepeatMode,
+  ShuffleMode,
+  ValidationOptions,
+} from "./types";
+
+// =============================================
+// VALIDATION UTILITIES
+// =============================================
+
+/**
+ * Hex colors accepted by both platforms: #RRGGBB or #AARRGGBB
+ */
+export const COLOR_PATTERN = /^#([0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/;
+
+/**
+ * ISO 8601 dates: YYYY, YYYY-MM, YYYY-MM-DD or a full timestamp
+ */
+export const DATE_PATTERN =
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]([01]\d|2[0-3]):?[0-5]\d)?)?)?)?$/;
+
+/**
+ * Longest skip interval in seconds accepted for skip forward/backward
+ */
+export const MAX_SKIP_INTERVAL = 300;
+
+/**
+ * Highest playback rate accepted for the session and for supported rates
+ */
+export const MAX_PLAYBACK_RATE = 10;
+
+/**
+ * Accepted shuffle modes
+ */
+export const SHUFFLE_MODES: readonly ShuffleMode[] = ["off", "all", "group"];
+
+/**
+ * Accepted repeat modes
+ */
+export const REPEAT_MODES: readonly RepeatMode[] = ["off", "one", "all"];
+
+/**
+ * Accepted media types
+ */
+export const MEDIA_TYPES: readonly MediaType[] = [
+  "music",
+  "podcast",
+  "audiobook",
+  "radio",
+  "video",
+];
+
+/**
+ * Commands without a notification button, which cannot be compact capabilities
+ */
+export const NON_COMPACT_COMMANDS: readonly Command[] = [
+  Command.SET_SHUFFLE_MODE,
+  Command.SET_REPEAT_MODE,
+  Command.CHANGE_PLAYBACK_RATE,
+];
+
+/**
+ * Leading URI scheme, e.g. "https:"
+ */
+const URI_SCHEME_PATTERN = /^([a-z][a-z0-9+.-]*):/i;
+
+/**
+ * Base64-encoded image data URI
+ */
+const IMAGE_DATA_URI_PATTERN =
+  /^data:image\/[\w.+-]+;base64,[a-z0-9+/\s]+=*\s*$/i;
+
+/**
+ * Current input validation settings
+ */
+export const validationOptions: Required<ValidationOptions> = {
+  mode: "strict",
+};
+
+/**
+ * Append a field to a validation path
+ */
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Path of the field enclosing a path, e.g. "chapters[0]" for "chapters[0].title"
+ * Top-level paths are returned unchanged
+ */
+function getParentPath(path: string): string {
+  const index = Math.max(path.lastIndexOf("."), path.lastIndexOf("["));
+  return index > 0 ? path.slice(0, index) : path;
+}
+
+/**
+ * Create a validation issue
+ */
+function createIssue(
+  path: string,
+  code: ValidationIssueCode,
+  message: string,
+): ValidationIssue {
+  return { path, code, message };
+}
+
+/**
+ * Create a ValidationError carrying every issue found
+ */
+export function createValidationError(
+  issues: ValidationIssue[],
+): ValidationError {
+  const message =
+    issues.length === 1
+      ? issues[0].message
+      : `${issues.length} validation issues: ${issues.map((issue) => issue.message).join("; ")}`;
+  return new ValidationError(message, issues[0].path, issues);
+}
+
+/**
+ * Copy a value without the fields at the given paths
+ */
+function omitPaths(value: any, paths: Set<string>, path: string = ""): any {
+  if (Array.isArray(value)) {
+    return value
+      .map((item, index) => [item, `${path}[${index}]`] as const)
+      .filter(([, itemPath]) => !paths.has(itemPath))
+      .map(([item, itemPath]) => omitPaths(item, paths, itemPath));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !paths.has(joinPath(path, key)))
+        .map(([key, field]) => [
+          key,
+          omitPaths(field, paths, joinPath(path, key)),
+        ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Apply the validation mode to a checked object
+ * Strict mode throws every issue at once; lenient mode drops the invalid fields
+ * (moving up to the enclosing field while that is not enough) and warns
+ */
+function applyValidationMode<T>(
+  value: T,
+  label: string,
+  collectIssues: (value: any) => ValidationIssue[],
+): T {
+  const issues = collectIssues(value);
+  if (issues.length === 0) {
+    return value;
+  }
+  if (validationOptions.mode === "strict") {
+    throw createValidationError(issues);
+  }
+
+  let result = omitPaths(value, new Set(issues.map((issue) => issue.path)));
+  // Dropping a required field leaves the object holding it invalid, e.g. a
+  // chapter without a title, so drop that object instead
+  let remaining = collectIssues(result);
+  while (remaining.length > 0) {
+    const parentPaths = remaining.map((issue) => getParentPath(issue.path));
+    result = omitPaths(result, new Set(parentPaths));
+    if (parentPaths.every((path) => !/[.[]/.test(path))) {
+      break;
+    }
+    remaining = collectIssues(result);
+  }
+
+  log.warn(
+    `Dropping invalid ${label} fields: ${issues.map((issue) => issue.path).join(", ")}`,
+    { data: issues },
+  );
+  return result;
+}
+
+/**
+ * Collect every problem with media metadata input
+ * @param path - Prefix for issue paths, e.g. when the metadata belongs to a queue item
+ */
+export function collectMetadataIssues(
+  metadata: any,
+  path: string = "",
+): ValidationIssue[] {
+  if (!metadata || typeof metadata !== "object") {
+    return [
+      createIssue(
+        path || "metadata",
+        "invalid_type",
+        "Metadata must be an object",
+      ),
+    ];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  // Validate optional string fields
+  const stringFields = [
+    "title",
+    "artist",
+    "album",
+    "albumArtist",
+    "composer",
+    "showName",
+    "description",
+    "genre",
+    "date",
+    "publishDate",
+    "color",
+  ];
+  for (const field of stringFields) {
+    if (metadata[field] !== undefined && typeof metadata[field] !== "string") {
+      const fieldPath = joinPath(path, field);
+      issues.push(
+        createIssue(fieldPath, "invalid_type", `${fieldPath} must be a string`),
+      );
+    }
+  }
+
+  for (const field of ["date", "publishDate"]) {
+    if (
+      typeof metadata[field] === "string" &&
+      !DATE_PATTERN.test(metadata[field])
+    ) {
+      const fieldPath = joinPath(path, field);
+      issues.push(
+        createIssue(
+          fieldPath,
+          "invalid_format",
+          `${fieldPath} must be an ISO 8601 date (YYYY, YYYY-MM-DD or a full timestamp)`,
+        ),
+      );
+    }
+  }
+
+  if (metadata.artists !== undefined) {
+    const artistsPath = joinPath(path, "artists");
+    if (!Array.isArray(metadata.artists)) {
+      issues.push(
+        createIssue(
+          artistsPath,
+          "invalid_type",
+          `${artistsPath} must be an array`,
+        ),
+      );
+    } else {
+      metadata.artists.forEach((artist: any, index: number) => {
+        if (typeof artist !== "string") {
+          const artistPath = `${artistsPath}[${index}]`;
+          issues.push(
+            createIssue(
+              artistPath,
+              "invalid_type",
+              `${artistPath} must be a string`,
+            ),
+          );
+        }
+      });
+    }
+  }
+
+  if (
+    metadata.mediaType !== undefined &&
+    !MEDIA_TYPES.includes(metadata.mediaType)
+  ) {
+    const fieldPath = joinPath(path, "mediaType");
+    issues.push(
+      createIssue(
+        fieldPath,
+        "invalid_value",
+        `${fieldPath} must be one of: ${MEDIA_TYPES.join(", ")}`,
+      ),
+    );
+  }
+
+  if (
+    typeof metadata.color === "string" &&
+    !COLOR_PATTERN.test(metadata.color)
+  ) {
+    const fieldPath = joinPath(path, "color");
+    issues.push(
+      createIssue(
+        fieldPath,
+        "invalid_format",
+        `${fieldPath} must be a hex color (#RRGGBB or #AARRGGBB)`,
+      ),
+    );
+  }
+
+  // Validate optional number fields
+  const numberFields = [
+    "duration",
+    "elapsedTime",
+    "trackNumber",
+    "albumTrackCount",
+    "episodeNumber",
+    "seasonNumber",
+  ];
+  for (const field of numberFields) {
+    if (metadata[field] === undefined) {
+      continue;
+    }
+    const fieldPath = joinPath(path, field);
+    if (typeof metadata[field] !== "number") {
+      issues.push(
+        createIssue(fieldPath, "invalid_type", `${fieldPath} must be a number`),
+      );
+    } else if (metadata[field] < 0) {
+      issues.push(
+        createIssue(
+          fieldPath,
+          "out_of_range",
+          `${fieldPath} must be non-negative`,
+        ),
+      );
+    }
+  }
+
+  // Validate optional boolean fields
+  const booleanFields = ["colorized", "isLiveStream", "isExplicit"];
+  for (const field of booleanFields) {
+    if (metadata[field] !== undefined && typeof metadata[field] !== "boolean") {
+      const fieldPath = joinPath(path, field);
+      issues.push(
+        createIssue(
+          fieldPath,
+          "invalid_type",
+          `${fieldPath} must be a boolean`,
+        ),
+      );
+    }
+  }
+
+  if (metadata.artwork !== undefined) {
+    issues.push(
+      ...collectArtworkIssues(metadata.artwork, joinPath(path, "artwork")),
+    );
+  }
+
+  if (metadata.rating !== undefined) {
+    issues.push(
+      ...collectRatingIssues(metadata.rating, joinPath(path, "rating")),
+    );
+  }
+
+  if (metadata.chapters !== undefined) {
+    issues.push(
+      ...collectChapterIssues(metadata.chapters, joinPath(path, "chapters")),
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Collect every problem with a list of chapters
+ */
+function collectChapterIssues(chapters: any, path: string): ValidationIssue[] {
+  if (!Array.isArray(chapters)) {
+    return [createIssue(path, "invalid_type", `${path} must be an array`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  chapters.forEach((chapter, index) => {
+    const chapterPath = `${path}[${index}]`;
+    if (!chapter || typeof chapter !== "object") {
+      issues.push(
+        createIssue(
+          chapterPath,
+          "invalid_type",
+          `${chapterPath} must be an object`,
+        ),
+      );
+      return;
+    }
+    if (typeof chapter.title !== "string") {
+      issues.push(
+        createIssue(
+          `${chapterPath}.title`,
+          "invalid_type",
+          `${chapterPath}.title must be a string`,
+        ),
+      );
+    }
+    if (
+      typeof chapter.startTime !== "number" ||
+      !isFinite(chapter.startTime) ||
+      chapter.startTime < 0
+    ) {
+      issues.push(
+        createIssue(
+          `${chapterPath}.startTime`,
+          "out_of_range",
+          `${chapterPath}.startTime must be a non-negative number`,
+        ),
+      );
+    }
+    if (
+      chapter.endTime !== undefined &&
+      (typeof chapter.endTime !== "number" ||
+        !(chapter.endTime > chapter.startTime))
+    ) {
+      issues.push(
+        createIssue(
+          `${chapterPath}.endTime`,
+          "out_of_range",
+          `${chapterPath}.endTime must be a number after startTime`,
+        ),
+      );
+    }
+    if (chapter.artwork !== undefined) {
+      issues.push(
+        ...collectArtworkIssues(chapter.artwork, `${chapterPath}.artwork`),
+      );
+    }
+  });
+  return issues;
+}
+
+/**
+ * Collect every problem with an artwork object
+ */
+export function collectArtworkIssues(
+  artwork: any,
+  path: string,
+): ValidationIssue[] {
+  if (typeof artwork === "number") {
+    return Image.resolveAssetSource(artwork)
+      ? []
+      : [
+          createIssue(
+            path,
+            "invalid_value",
+            `${path} is not a bundled asset; pass the result of require() or an artwork object`,
+          ),
+        ];
+  }
+  if (!artwork || typeof artwork !== "object") {
+    return [
+      createIssue(
+        path,
+        "invalid_type",
+        `${path} must be an object or a bundled asset`,
+      ),
+    ];
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (typeof artwork.uri !== "string" || artwork.uri.trim().length === 0) {
+    issues.push(
+      createIssue(
+        `${path}.uri`,
+        "invalid_type",
+        `${path}.uri must be a non-empty string`,
+      ),
+    );
+  } else {
+    const issue = getArtworkUriIssue(artwork.uri.trim(), `${path}.uri`);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+  for (const field of ["width", "height"]) {
+    if (artwork[field] === undefined) {
+      continue;
+    }
+    if (typeof artwork[field] !== "number") {
+      issues.push(
+        createIssue(
+          `${path}.${field}`,
+          "invalid_type",
+          `${path}.${field} must be a number`,
+        ),
+      );
+    } else if (artwork[field] < 0) {
+      issues.push(
+        createIssue(
+          `${path}.${field}`,
+          "out_of_range",
+          `${path}.${field} must be non-negative`,
+        ),
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check an artwork URI's scheme
+ * http(s), file and base64 image data URIs load everywhere, content URIs on
+ * Android only. Absolute paths and bare names (bundled images) have no scheme.
+ */
+function getArtworkUriIssue(uri: string, path: string): ValidationIssue | null {
+  const scheme = URI_SCHEME_PATTERN.exec(uri)?.[1].toLowerCase();
+  switch (scheme) {
+    case undefined:
+    case "http":
+    case "https":
+    case "file":
+      return null;
+    case "data":
+      return IMAGE_DATA_URI_PATTERN.test(uri)
+        ? null
+        : createIssue(
+            path,
+            "invalid_format",
+            `${path} must be a base64-encoded image (data:image/png;base64,...)`,
+          );
+    case "content":
+      return Platform.OS === "android"
+        ? null
+        : createIssue(
+            path,
+            "invalid_value",
+            `${path} uses content:, which is only supported on Android`,
+          );
+    default:
+      return createIssue(
+        path,
+        "invalid_value",
+        `${path} uses the unsupported scheme "${scheme}:"; use http(s):, file:, data: or a bundled asset`,
+      );
+  }
+}
+
+/**
+ * Normalize an artwork URI for native
+ * Lowercases the scheme, turns absolute paths into file URLs and removes the
+ * whitespace that line-wrapped base64 data URIs contain
+ */
+function normalizeArtworkUri(uri: string): string {
+  const trimmed = uri.trim();
+  if (trimmed.startsWith("/")) {
+    return `file://${encodeURI(trimmed)}`;
+  }
+  const normalized = trimmed.replace(URI_SCHEME_PATTERN, (scheme) =>
+    scheme.toLowerCase(),
+  );
+  if (normalized.startsWith("data:")) {
+    return normalized.replace(/\s+/g, "");
+  }
+  // file:/path is a valid but uncommon spelling of file:///path
+  return normalized.replace(/^file:\/(?!\/)/, "file:///");
+}
+
+/**
+ * Resolve an artwork source to the artwork object sent to native
+ * Bundled assets are resolved through the asset system, which yields the
+ * packager URL in development and the bundled file or resource in release builds.
+ * The source must have passed collectArtworkIssues.
+ */
+export function resolveArtworkSource(source: ArtworkSource): MediaArtwork {
+  if (typeof source === "number") {
+    const { uri, width, height } = Image.resolveAssetSource(source);
+    const artwork: MediaArtwork = { uri: normalizeArtworkUri(uri) };
+    if (width !== undefined) artwork.width = width;
+    if (height !== undefined) artwork.height = height;
+    return artwork;
+  }
+  return { ...source, uri: normalizeArtworkUri(source.uri) };
+}
+
+/**
+ * Resolve the artwork of metadata and its chapters
+ */
+function resolveMetadataArtwork<T extends MediaMetadata | MetadataPatch>(
+  metadata: T,
+): T {
+  const resolved = { ...metadata };
+  if (resolved.artwork) {
+    resolved.artwork = resolveArtworkSource(resolved.artwork);
+  }
+  if (Array.isArray(resolved.chapters)) {
+    resolved.chapters = resolved.chapters.map((chapter) =>
+      chapter.artwork
+        ? { ...chapter, artwork: resolveArtworkSource(chapter.artwork) }
+        : chapter,
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Maximum rating value for each rating type
+ */
+export const RATING_MAX_VALUES: Record<RatingType, number> = {
+  [RatingType.HEART]: 1,
+  [RatingType.THUMBS_UP_DOWN]: 1,
+  [RatingType.THREE_STARS]: 3,
+  [RatingType.FOUR_STARS]: 4,
+  [RatingType.FIVE_STARS]: 5,
+  [RatingType.PERCENTAGE]: 100,
+};
+
+/**
+ * Whether a rating type takes a boolean value
+ */
+export function isBooleanRatingType(type: RatingType): boolean {
+  return type === RatingType.HEART || type === RatingType.THUMBS_UP_DOWN;
+}
+
+/**
+ * Collect every problem with a rating object
+ * Heart and thumbs ratings take a boolean, the others a number up to the
+ * type's maximum (or maxValue when given)
+ */
+function collectRatingIssues(rating: any, path: string): ValidationIssue[] {
+  if (!rating || typeof rating !== "object") {
+    return [createIssue(path, "invalid_type", `${path} must be an object`)];
+  }
+  if (!Object.values(RatingType).includes(rating.type)) {
+    return [
+      createIssue(
+        `${path}.type`,
+        "invalid_value",
+        `${path}.type must be a valid RatingType`,
+      ),
+    ];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (isBooleanRatingType(rating.type)) {
+    if (typeof rating.value !== "boolean") {
+      issues.push(
+        createIssue(
+          `${path}.value`,
+          "invalid_type",
+          `${path}.value must be a boolean for ${rating.type} ratings`,
+        ),
+      );
+    }
+    return issues;
+  }
+
+  if (
+    rating.maxValue !== undefined &&
+    (typeof rating.maxValue !== "number" || !(rating.maxValue > 0))
+  ) {
+    issues.push(
+      createIssue(
+        `${path}.maxValue`,
+        "out_of_range",
+        `${path}.maxValue must be a positive number`,
+      ),
+    );
+  }
+
+  const maxValue =
+    typeof rating.maxValue === "number" && rating.maxValue > 0
+      ? rating.maxValue
+      : RATING_MAX_VALUES[rating.type as RatingType];
+  if (typeof rating.value !== "number") {
+    issues.push(
+      createIssue(
+        `${path}.value`,
+        "invalid_type",
+        `${path}.value must be a number for ${rating.type} ratings`,
+      ),
+    );
+  } else if (!(rating.value >= 0 && rating.value <= maxValue)) {
+    issues.push(
+      createIssue(
+        `${path}.value`,
+        "out_of_range",
+        `${path}.value must be between 0 and ${maxValue} for ${rating.type} ratings`,
+      ),
+    );
+  }
+  return issues;
+}
+
+/**
+ * Validates media metadata input
+ * @returns The metadata to use; in lenient mode invalid fields are removed
+ */
+export function checkMetadata(metadata: any): MediaMetadata {
+  if (!metadata || typeof metadata !== "object") {
+    throw new ValidationError("Metadata must be an object", "metadata");
+  }
+  return resolveMetadataArtwork(
+    applyValidationMode(metadata, "metadata", (value) =>
+      collectMetadataIssues(value),
+    ),
+  );
+}
+
+/**
+ * Validates playback state input
+ */
+export function validatePlaybackState(
+  state: any,
+): asserts state is PlaybackState {
+  if (typeof state !== "number") {
+    throw new ValidationError("Playback state must be a number", "state");
+  }
+  if (!Object.values(PlaybackState).includes(state)) {
+    throw new ValidationError("Invalid playback state value", "state");
+  }
+}
+
+/**
+ * Validates position input
+ */
+export function validatePosition(position: any): asserts position is number {
+  if (typeof position !== "number") {
+    throw new ValidationError("Position must be a number", "position");
+  }
+  if (position < 0) {
+    throw new ValidationError("Position must be non-negative", "position");
+  }
+  if (!isFinite(position)) {
+    throw new ValidationError("Position must be finite", "position");
+  }
+}
+
+/**
+ * Validates playback rate input
+ */
+export function validatePlaybackRate(rate: any): asserts rate is number {
+  if (typeof rate !== "number") {
+    throw new ValidationError("Playback rate must be a number", "playbackRate");
+  }
+  if (rate < 0) {
+    throw new ValidationError(
+      "Playback rate must be non-negative",
+      "playbackRate",
+    );
+  }
+  if (rate > MAX_PLAYBACK_RATE) {
+    throw new ValidationError(
+      `Playback rate must not exceed ${MAX_PLAYBACK_RATE}`,
+      "playbackRate",
+    );
+  }
+  if (!isFinite(rate)) {
+    throw new ValidationError("Playback rate must be finite", "playbackRate");
+  }
+}
+
+/**
+ * Validates a list of queue items
+ * Every item needs a unique, non-empty id and valid metadata
+ * @param existingIds - Ids already in the queue that new items must not reuse
+ * @returns The items to use; in lenient mode invalid metadata fields are removed
+ */
+export function checkQueueItems(
+  items: any,
+  existingIds: string[] = [],
+): QueueItem[] {
+  if (!Array.isArray(items)) {
+    throw new ValidationError("Queue items must be an array", "items");
+  }
+
+  const issues: ValidationIssue[] = [];
+  const ids = new Set(existingIds);
+  const checkedItems = items.map((item, index) => {
+    const path = `items[${index}]`;
+    if (!item || typeof item !== "object") {
+      issues.push(
+        createIssue(
+          path,
+          "invalid_type",
+          `Queue item at index ${index} must be an object`,
+        ),
+      );
+      return item;
+    }
+    if (typeof item.id !== "string" || item.id.length === 0) {
+      issues.push(
+        createIssue(
+          `${path}.id`,
+          "invalid_type",
+          `Queue item at index ${index} must have a non-empty string id`,
+        ),
+      );
+    } else if (ids.has(item.id)) {
+      issues.push(
+        createIssue(
+          `${path}.id`,
+          "duplicate",
+          `Duplicate queue item id: ${item.id}`,
+        ),
+      );
+    }
+    ids.add(item.id);
+
+    if (validationOptions.mode === "lenient") {
+      return { ...item, metadata: checkMetadata(item.metadata) };
+    }
+    issues.push(...collectMetadataIssues(item.metadata, `${path}.metadata`));
+    return item;
+  });
+
+  if (issues.length > 0) {
+    throw createValidationError(issues);
+  }
+  return checkedItems;
+}
+
+/**
+ * Collect every problem with a list of commands
+ */
+function collectCommandListIssues(
+  commands: any,
+  path: string,
+  label: string,
+): ValidationIssue[] {
+  if (!Array.isArray(commands)) {
+    return [createIssue(path, "invalid_type", `${path} must be an array`)];
+  }
+  return commands.flatMap((command, index) =>
+    Object.values(Command).includes(command)
+      ? []
+      : [
+          createIssue(
+            `${path}[${index}]`,
+            "invalid_value",
+            `Invalid ${label}: ${command}`,
+          ),
+        ],
+  );
+}
+
+/**
+ * Collect every problem with a list of custom actions
+ */
+function collectCustomActionIssues(
+  actions: any,
+  path: string,
+): ValidationIssue[] {
+  if (!Array.isArray(actions)) {
+    return [createIssue(path, "invalid_type", `${path} must be an array`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const ids = new Set<string>();
+  actions.forEach((action, index) => {
+    const actionPath = `${path}[${index}]`;
+    if (!action || typeof action !== "object") {
+      issues.push(
+        createIssue(
+          actionPath,
+          "invalid_type",
+          `${actionPath} must be an object`,
+        ),
+      );
+      return;
+    }
+    for (const field of ["id", "title", "icon"]) {
+      if (typeof action[field] !== "string" || action[field].length === 0) {
+        issues.push(
+          createIssue(
+            `${actionPath}.${field}`,
+            "invalid_type",
+            `${actionPath}.${field} must be a non-empty string`,
+          ),
+        );
+      }
+    }
+    if (typeof action.id === "string") {
+      if (ids.has(action.id)) {
+        issues.push(
+          createIssue(
+            `${actionPath}.id`,
+            "duplicate",
+            `Duplicate custom action id: ${action.id}`,
+          ),
+        );
+      }
+      ids.add(action.id);
+    }
+    if (
+      action.showInCompact !== undefined &&
+      typeof action.showInCompact !== "boolean"
+    ) {
+      issues.push(
+        createIssue(
+          `${actionPath}.showInCompact`,
+          "invalid_type",
+          `${actionPath}.showInCompact must be a boolean`,
+        ),
+      );
+    }
+  });
+  return issues;
+}
+
+/**
+ * Collect every problem with a list of supported playback rates
+ */
+function collectPlaybackRateListIssues(
+  rates: any,
+  path: string,
+): ValidationIssue[] {
+  if (!Array.isArray(rates)) {
+    return [createIssue(path, "invalid_type", `${path} must be an array`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<number>();
+  rates.forEach((rate, index) => {
+    const ratePath = `${path}[${index}]`;
+    if (typeof rate !== "number" || !isFinite(rate)) {
+      issues.push(
+        createIssue(
+          ratePath,
+          "invalid_type",
+          `${ratePath} must be a finite number`,
+        ),
+      );
+      return;
+    }
+    if (rate < 0 || rate > MAX_PLAYBACK_RATE) {
+      issues.push(
+        createIssue(
+          ratePath,
+          "out_of_range",
+          `${ratePath} must be between 0 and ${MAX_PLAYBACK_RATE}`,
+        ),
+      );
+    }
+    if (seen.has(rate)) {
+      issues.push(
+        createIssue(ratePath, "duplicate", `Duplicate playback rate: ${rate}`),
+      );
+    }
+    seen.add(rate);
+  });
+  return issues;
+}
+
+/**
+ * Collect every problem with artwork cache options
+ */
+function collectArtworkCacheIssues(
+  cache: any,
+  path: string,
+): ValidationIssue[] {
+  if (!cache || typeof cache !== "object") {
+    return [createIssue(path, "invalid_type", `${path} must be an object`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const field of ["maxBytes", "maxEntries"]) {
+    const value = cache[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      issues.push(
+        createIssue(
+          `${path}.${field}`,
+          "invalid_type",
+          `${path}.${field} must be a non-negative integer`,
+        ),
+      );
+    }
+  }
+  if (
+    cache.ttl !== undefined &&
+    (typeof cache.ttl !== "number" || !isFinite(cache.ttl) || cache.ttl < 0)
+  ) {
+    issues.push(
+      createIssue(
+        `${path}.ttl`,
+        "invalid_type",
+        `${path}.ttl must be a non-negative number of seconds`,
+      ),
+    );
+  }
+  return issues;
+}
+
+/**
+ * Collect every problem with media control options
+ */
+export function collectMediaControlOptionsIssues(
+  options: any,
+): ValidationIssue[] {
+  if (!options || typeof options !== "object") {
+    return [
+      createIssue("options", "invalid_type", "Options must be an object"),
+    ];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (options.capabilities !== undefined) {
+    issues.push(
+      ...collectCommandListIssues(
+        options.capabilities,
+        "capabilities",
+        "capability",
+      ),
+    );
+  }
+
+  if (options.compactCapabilities !== undefined) {
+    issues.push(
+      ...collectCommandListIssues(
+        options.compactCapabilities,
+        "compactCapabilities",
+        "compact capability",
+      ),
+    );
+    if (Array.isArray(options.compactCapabilities)) {
+      options.compactCapabilities.forEach((command: any, index: number) => {
+        if (NON_COMPACT_COMMANDS.includes(command)) {
+          issues.push(
+            createIssue(
+              `compactCapabilities[${index}]`,
+              "invalid_value",
+              `${command} has no notification button and cannot be a compact capability`,
+            ),
+          );
+        }
+      });
+    }
+    if (
+      Array.isArray(options.compactCapabilities) &&
+      options.compactCapabilities.length > 3
+    ) {
+      issues.push(
+        createIssue(
+          "compactCapabilities",
+          "too_many_items",
+          "compactCapabilities can have at most 3 items",
+        ),
+      );
+    }
+  }
+
+  if (options.customActions !== undefined) {
+    issues.push(
+      ...collectCustomActionIssues(options.customActions, "customActions"),
+    );
+    // The compact notification view fits three buttons in total
+    if (Array.isArray(options.customActions)) {
+      const compactCount =
+        (Array.isArray(options.compactCapabilities)
+          ? options.compactCapabilities.length
+          : 0) +
+        options.customActions.filter((action: any) => action?.showInCompact)
+          .length;
+      if (compactCount > 3) {
+        issues.push(
+          createIssue(
+            "customActions",
+            "too_many_items",
+            "compactCapabilities and compact custom actions can have at most 3 items together",
+          ),
+        );
+      }
+    }
+  }
+
+  if (options.supportedPlaybackRates !== undefined) {
+    issues.push(
+      ...collectPlaybackRateListIssues(
+        options.supportedPlaybackRates,
+        "supportedPlaybackRates",
+      ),
+    );
+  }
+
+  if (options.artworkCache !== undefined) {
+    issues.push(
+      ...collectArtworkCacheIssues(options.artworkCache, "artworkCache"),
+    );
+  }
+
+  if (options.notification !== undefined) {
+    const { notification } = options;
+    if (!notification || typeof notification !== "object") {
+      issues.push(
+        createIssue(
+          "notification",
+          "invalid_type",
+          "notification must be an object",
+        ),
+      );
+    } else {
+      if (
+        notification.icon !== undefined &&
+        typeof notification.icon !== "string"
+      ) {
+        issues.push(
+          createIssue(
+            "notification.icon",
+            "invalid_type",
+            "notification.icon must be a string",
+          ),
+        );
+      }
+      if (notification.color !== undefined) {
+        if (
+          typeof notification.color !== "string" ||
+          !COLOR_PATTERN.test(notification.color)
+        ) {
+          issues.push(
+            createIssue(
+              "notification.color",
+              "invalid_format",
+              "notification.color must be a hex color (#RRGGBB or #AARRGGBB)",
+            ),
+          );
+        }
+      }
+      if (notification.largeIcon !== undefined) {
+        issues.push(
+          ...collectArtworkIssues(
+            notification.largeIcon,
+            "notification.largeIcon",
+          ),
+        );
+      }
+      if (
+        notification.showWhenClosed !== undefined &&
+        typeof notification.showWhenClosed !== "boolean"
+      ) {
+        issues.push(
+          createIssue(
+            "notification.showWhenClosed",
+            "invalid_type",
+            "notification.showWhenClosed must be a boolean",
+          ),
+        );
+      }
+    }
+  }
+
+  for (const platform of ["ios", "android"]) {
+    const platformOptions = options[platform];
+    if (platformOptions === undefined) {
+      continue;
+    }
+    if (!platformOptions || typeof platformOptions !== "object") {
+      issues.push(
+        createIssue(platform, "invalid_type", `${platform} must be an object`),
+      );
+      continue;
+    }
+    const { skipInterval } = platformOptions;
+    if (skipInterval === undefined) {
+      continue;
+    }
+    if (typeof skipInterval !== "number" || !isFinite(skipInterval)) {
+      issues.push(
+        createIssue(
+          `${platform}.skipInterval`,
+          "invalid_type",
+          `${platform}.skipInterval must be a finite number`,
+        ),
+      );
+    } else if (skipInterval <= 0 || skipInterval > MAX_SKIP_INTERVAL) {
+      issues.push(
+        createIssue(
+          `${platform}.skipInterval`,
+          "out_of_range",
+          `${platform}.skipInterval must be greater than 0 and at most ${MAX_SKIP_INTERVAL} seconds`,
+        ),
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validates media control options
+ * @returns The options to use; in lenient mode invalid fields are removed
+ */
+export function checkMediaControlOptions(options: any): MediaControlOptions {
+  if (!options || typeof options !== "object") {
+    throw new ValidationError("Options must be an object", "options");
+  }
+  const checked = applyValidationMode(
+    options,
+    "media control options",
+    collectMediaControlOptionsIssues,
+  );
+  if (checked.notification?.largeIcon) {
+    return {
+      ...checked,
+      notification: {
+        ...checked.notification,
+        largeIcon: resolveArtworkSource(checked.notification.largeIcon),
+      },
+    };
+  }
+  return checked;
+}